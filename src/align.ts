@@ -0,0 +1,78 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+
+/**
+ * An edit which turns the expected string into the actual string: "equal" and "sub" consume a character of both,
+ * "ins" is a character only in the actual string and "del" is a character only in the expected string.
+ */
+export interface AlignOp {
+    op: "equal" | "sub" | "ins" | "del";
+    expected?: string;
+    actual?: string;
+}
+
+/**
+ * Aligns an OCR'd MICR line with its ground truth by the minimum number of character edits.
+ */
+export class Align {
+
+    /**
+     * Remove the whitespace of a MICR line, since the spacing of the fields of the ground truth is not that of
+     * the printed line.
+     */
+    public static normalize(line: string): string {
+        return line.replace(/\s+/g, "");
+    }
+
+    /**
+     * Return the edits of a minimum edit distance alignment of two strings, preferring substitutions over an
+     * insertion and deletion pair.
+     */
+    public static align(expected: string, actual: string): AlignOp[] {
+        const e = [...expected];
+        const a = [...actual];
+        const rows = e.length + 1;
+        const cols = a.length + 1;
+        // dist[i * cols + j] is the edit distance between the first i expected and first j actual characters
+        const dist = new Uint32Array(rows * cols);
+        for (let i = 0; i < rows; i++) dist[i * cols] = i;
+        for (let j = 0; j < cols; j++) dist[j] = j;
+        for (let i = 1; i < rows; i++) {
+            for (let j = 1; j < cols; j++) {
+                const cost = e[i - 1] === a[j - 1] ? 0 : 1;
+                dist[i * cols + j] = Math.min(
+                    (dist[(i - 1) * cols + j - 1] as number) + cost,
+                    (dist[(i - 1) * cols + j] as number) + 1,
+                    (dist[i * cols + j - 1] as number) + 1,
+                );
+            }
+        }
+        const ops: AlignOp[] = [];
+        let i = e.length;
+        let j = a.length;
+        while (i > 0 || j > 0) {
+            const d = dist[i * cols + j] as number;
+            if (i > 0 && j > 0 && d === (dist[(i - 1) * cols + j - 1] as number) + (e[i - 1] === a[j - 1] ? 0 : 1)) {
+                ops.push({ op: e[i - 1] === a[j - 1] ? "equal" : "sub", expected: e[i - 1], actual: a[j - 1] });
+                i--;
+                j--;
+            } else if (i > 0 && d === (dist[(i - 1) * cols + j] as number) + 1) {
+                ops.push({ op: "del", expected: e[i - 1] });
+                i--;
+            } else {
+                ops.push({ op: "ins", actual: a[j - 1] });
+                j--;
+            }
+        }
+        return ops.reverse();
+    }
+
+    /**
+     * Return the number of edits of an alignment.
+     */
+    public static distance(ops: AlignOp[]): number {
+        return ops.filter(o => o.op !== "equal").length;
+    }
+
+}
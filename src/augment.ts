@@ -0,0 +1,380 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as PImage from 'pureimage';
+import * as fs from 'fs';
+import { PassThrough } from 'stream';
+import { ConfigError } from './options.js';
+import { Util } from './util.js';
+
+/**
+ * The probability with which an augmentation is applied to a sample and its maximum strength.
+ * The strength is between 0 and 1; the strength of each sample is chosen randomly between half of the
+ * maximum and the maximum, and is then scaled to the units of the augmentation (see AUGMENTATIONS).
+ */
+export interface AugmentOption {
+    probability: number;
+    strength: number;
+}
+
+export type AugmentConfig = {[name:string]: AugmentOption};
+
+/**
+ * The parameters chosen for an augmentation of a sample, which are recorded next to the sample.
+ */
+export interface AppliedAugmentation {
+    name: string;
+    [param:string]: string | number;
+}
+
+/**
+ * The rectangle containing the MICR line of an image, which signature strokes are drawn across.
+ */
+export interface Band {
+    y0: number;
+    y1: number;
+}
+
+type Bitmap = PImage.Bitmap;
+
+interface Augmentation {
+    desc: string;
+    apply: (img: Bitmap, strength: number, random: () => number, band: Band) => Promise<{ image: Bitmap, params: {[param:string]: string | number} }>;
+}
+
+/**
+ * The augmentations in the order in which they are applied: those which add content to the page first,
+ * then the geometric distortions, then the degradations of scanning and compression.
+ */
+export const AUGMENTATIONS: {[name:string]: Augmentation} = {
+    background: {
+        desc: "a pattern of fine lines behind the content; strength 1 is a mid-gray pattern",
+        apply: async (img, strength, random) => {
+            const spacing = 4 + Math.floor(random() * 8);
+            const angle = random() * Math.PI;
+            const gray = Math.round(255 - strength * 128);
+            const dx = Math.cos(angle);
+            const dy = Math.sin(angle);
+            forEachPixel(img, (x, y, i) => {
+                const d = x * dy - y * dx;
+                if (Math.abs(d % spacing) < 1) darken(img.data, i, gray, gray, gray);
+            });
+            return { image: img, params: { spacing, angle: round(angle * 180 / Math.PI), gray } };
+        },
+    },
+    stamp: {
+        desc: "a colored rubber stamp outline; strength 1 is a fully opaque stamp",
+        apply: async (img, strength, random) => {
+            const r = Math.round(Math.min(img.width, img.height) * (0.15 + random() * 0.2));
+            const cx = Math.round(r + random() * Math.max(0, img.width - 2 * r));
+            const cy = Math.round(r + random() * Math.max(0, img.height - 2 * r));
+            const opacity = round(0.3 + strength * 0.7);
+            const thickness = Math.max(2, Math.round(r / 8));
+            const blend = (i: number) => darken(img.data, i, lerp(255, 200, opacity), lerp(255, 30, opacity), lerp(255, 30, opacity));
+            forEachPixel(img, (x, y, i) => {
+                const d = Math.hypot(x - cx, y - cy);
+                if ((d <= r && d > r - thickness) || (d <= r * 0.7 && d > r * 0.7 - thickness / 2)) blend(i);
+            });
+            return { image: img, params: { x: cx, y: cy, radius: r, opacity } };
+        },
+    },
+    signature: {
+        desc: "handwriting or signature strokes crossing the MICR line; strength 1 is 4 thick strokes",
+        apply: async (img, strength, random, band) => {
+            const strokes = 1 + Math.round(strength * 3);
+            const width = 1 + strength * 2;
+            for (let s = 0; s < strokes; s++) {
+                // A cubic bezier curve from above the band to below it, or the reverse
+                const x0 = random() * img.width;
+                const x3 = x0 + (random() - 0.5) * img.width * 0.5;
+                const above = Math.max(0, band.y0 - (band.y1 - band.y0) * 2);
+                const below = Math.min(img.height - 1, band.y1 + (band.y1 - band.y0) * 2);
+                const pts = [
+                    [x0, random() < 0.5 ? above : below],
+                    [x0 + (random() - 0.5) * 200, band.y0 + random() * (band.y1 - band.y0)],
+                    [x3 + (random() - 0.5) * 200, band.y0 + random() * (band.y1 - band.y0)],
+                    [x3, random() < 0.5 ? below : above],
+                ] as [number, number][];
+                for (let t = 0; t <= 1; t += 0.002) {
+                    const x = bezier(pts.map(p => p[0]), t);
+                    const y = bezier(pts.map(p => p[1]), t);
+                    drawDot(img, x, y, width / 2, [20, 20, 90]);
+                }
+            }
+            return { image: img, params: { strokes, width: round(width) } };
+        },
+    },
+    rotate: {
+        desc: "rotation about the center; strength 1 is up to 5 degrees either way",
+        apply: async (img, strength, random) => {
+            const degrees = round(strength * 5 * (random() < 0.5 ? -1 : 1));
+            const rad = degrees * Math.PI / 180;
+            const cos = Math.cos(rad);
+            const sin = Math.sin(rad);
+            const cx = img.width / 2;
+            const cy = img.height / 2;
+            const image = transform(img, (x, y) => [cos * (x - cx) + sin * (y - cy) + cx, -sin * (x - cx) + cos * (y - cy) + cy]);
+            return { image, params: { degrees } };
+        },
+    },
+    skew: {
+        desc: "horizontal shear; strength 1 is a shear of up to 0.1 either way",
+        apply: async (img, strength, random) => {
+            const shear = round(strength * 0.1 * (random() < 0.5 ? -1 : 1), 4);
+            const cy = img.height / 2;
+            const image = transform(img, (x, y) => [x - shear * (y - cy), y]);
+            return { image, params: { shear } };
+        },
+    },
+    lowDpi: {
+        desc: "resampling to a lower resolution and back; strength 1 is a quarter of the resolution",
+        apply: async (img, strength) => {
+            const scale = round(1 / (1 + strength * 3), 3);
+            const w = Math.max(1, Math.round(img.width * scale));
+            const h = Math.max(1, Math.round(img.height * scale));
+            const small = resize(img, w, h);
+            return { image: resize(small, img.width, img.height), params: { scale } };
+        },
+    },
+    blur: {
+        desc: "a box blur; strength 1 is a radius of 3 pixels",
+        apply: async (img, strength) => {
+            const radius = Math.max(1, Math.round(strength * 3));
+            return { image: boxBlur(img, radius), params: { radius } };
+        },
+    },
+    noise: {
+        desc: "gaussian noise; strength 1 is a standard deviation of 40 gray levels",
+        apply: async (img, strength, random) => {
+            const sigma = round(strength * 40);
+            forEachPixel(img, (_x, _y, i) => {
+                const n = gaussian(random) * sigma;
+                for (let c = 0; c < 3; c++) img.data[i + c] = clamp((img.data[i + c] as number) + n);
+            });
+            return { image: img, params: { sigma } };
+        },
+    },
+    saltPepper: {
+        desc: "salt-and-pepper noise; strength 1 turns 5% of the pixels black or white",
+        apply: async (img, strength, random) => {
+            const density = round(strength * 0.05, 4);
+            forEachPixel(img, (_x, _y, i) => {
+                if (random() >= density) return;
+                const v = random() < 0.5 ? 0 : 255;
+                for (let c = 0; c < 3; c++) img.data[i + c] = v;
+            });
+            return { image: img, params: { density } };
+        },
+    },
+    jpeg: {
+        desc: "JPEG recompression; strength 1 is a quality of 10",
+        apply: async (img, strength) => {
+            const quality = Math.round(100 - strength * 90);
+            const buf = await Util.encodeImage(img, "jpg", quality);
+            const stream = new PassThrough();
+            stream.end(buf);
+            return { image: await PImage.decodeJPEGFromStream(stream), params: { quality } };
+        },
+    },
+};
+
+/**
+ * Applies randomly chosen augmentations to images, such as generated checks and training samples, to simulate
+ * the degradations found in real checks.
+ */
+export class Augmenter {
+
+    private config: AugmentConfig;
+    // The random numbers of each augmentation
+    private randoms: {[name:string]: () => number} = {};
+
+    constructor(config: AugmentConfig, seed: number) {
+        for (const name in config) {
+            if (!(name in AUGMENTATIONS)) throw new Error(`Unknown augmentation '${name}'; expecting one of ${Object.keys(AUGMENTATIONS).join(", ")}`);
+            const opt = config[name] as AugmentOption;
+            if (!(opt.probability >= 0 && opt.probability <= 1)) throw new Error(`Invalid probability for augmentation '${name}': ${opt.probability}`);
+            if (!(opt.strength >= 0 && opt.strength <= 1)) throw new Error(`Invalid strength for augmentation '${name}': ${opt.strength}`);
+        }
+        this.config = config;
+        for (const name in config) this.randoms[name] = Util.seededRandom(Util.deriveSeed(seed, `augment:${name}`));
+    }
+
+    /**
+     * Parse an augmentation spec of the form "name[:probability[:strength]],...", where the probability
+     * and strength default to 1, or read it from a JSON file if the spec begins with "@".
+     */
+    public static parse(spec: string): AugmentConfig {
+        if (spec.startsWith("@")) return Augmenter.readConfig(spec.substring(1));
+        const config: AugmentConfig = {};
+        for (const item of spec.split(",").map(s => s.trim()).filter(s => s)) {
+            const [name, probability, strength] = item.split(":");
+            config[name as string] = {
+                probability: probability !== undefined ? Number(probability) : 1,
+                strength: strength !== undefined ? Number(strength) : 1,
+            };
+        }
+        return config;
+    }
+
+    /**
+     * Read augmentations from a JSON file containing an object such as {"signature": {"probability": 0.5}}, in
+     * which the probability and strength default to 1 as in a spec.
+     */
+    private static readConfig(file: string): AugmentConfig {
+        let json: any;
+        try {
+            json = JSON.parse(fs.readFileSync(file).toString());
+        } catch (e: any) {
+            throw new ConfigError(`Failed reading augmentations from ${file}: ${e.message}`);
+        }
+        if (!json || typeof json !== "object" || Array.isArray(json)) throw new ConfigError(`${file} must contain a JSON object of augmentations`);
+        const config: AugmentConfig = {};
+        for (const [name, value] of Object.entries(json)) {
+            const opt: any = value ?? {};
+            if (typeof opt !== "object" || Array.isArray(opt)) throw new ConfigError(`Invalid augmentation '${name}' in ${file}; expecting an object with "probability" and "strength"`);
+            config[name] = {
+                probability: opt.probability !== undefined ? Number(opt.probability) : 1,
+                strength: opt.strength !== undefined ? Number(opt.strength) : 1,
+            };
+        }
+        return config;
+    }
+
+    /**
+     * Apply the augmentations chosen for this sample, returning the augmented image and the parameters of each
+     * augmentation which was applied.  The image may be modified in place.
+     */
+    public async apply(img: Bitmap, band: Band): Promise<{ image: Bitmap, applied: AppliedAugmentation[] }> {
+        const applied: AppliedAugmentation[] = [];
+        for (const name in AUGMENTATIONS) {
+            const opt = this.config[name];
+            if (!opt) continue;
+            // Each augmentation draws from its own stream so that its choices do not depend on the others
+            const random = this.randoms[name] as () => number;
+            const chosen = random() < opt.probability;
+            const strength = opt.strength * (0.5 + 0.5 * random());
+            if (!chosen || strength === 0) continue;
+            const r = await (AUGMENTATIONS[name] as Augmentation).apply(img, strength, random, band);
+            img = r.image;
+            applied.push({ name, strength: round(strength, 3), ...r.params });
+        }
+        return { image: img, applied };
+    }
+
+}
+
+function forEachPixel(img: Bitmap, fn: (x: number, y: number, i: number) => void) {
+    for (let y = 0; y < img.height; y++) {
+        for (let x = 0; x < img.width; x++) fn(x, y, (y * img.width + x) * 4);
+    }
+}
+
+/**
+ * Blend a color into a pixel by keeping the darker of each channel, as ink does on paper.
+ */
+function darken(data: Uint8Array, i: number, r: number, g: number, b: number) {
+    data[i] = Math.min(data[i] as number, r);
+    data[i + 1] = Math.min(data[i + 1] as number, g);
+    data[i + 2] = Math.min(data[i + 2] as number, b);
+}
+
+function drawDot(img: Bitmap, cx: number, cy: number, radius: number, color: number[]) {
+    const r = Math.max(0.5, radius);
+    for (let y = Math.floor(cy - r); y <= Math.ceil(cy + r); y++) {
+        for (let x = Math.floor(cx - r); x <= Math.ceil(cx + r); x++) {
+            if (x < 0 || y < 0 || x >= img.width || y >= img.height) continue;
+            if (Math.hypot(x - cx, y - cy) > r) continue;
+            darken(img.data, (y * img.width + x) * 4, color[0] as number, color[1] as number, color[2] as number);
+        }
+    }
+}
+
+/**
+ * Return a new image in which each pixel is sampled from the source position given by "map", filling white
+ * outside of the source image.
+ */
+function transform(img: Bitmap, map: (x: number, y: number) => [number, number]): Bitmap {
+    const out = PImage.make(img.width, img.height);
+    forEachPixel(out, (x, y, i) => {
+        const [sx, sy] = map(x, y);
+        const px = Math.round(sx);
+        const py = Math.round(sy);
+        if (px < 0 || py < 0 || px >= img.width || py >= img.height) {
+            out.data.fill(255, i, i + 4);
+        } else {
+            const j = (py * img.width + px) * 4;
+            out.data.set(img.data.subarray(j, j + 4), i);
+        }
+    });
+    return out;
+}
+
+/**
+ * Resize an image, averaging the source pixels covered by each target pixel when shrinking.
+ */
+function resize(img: Bitmap, w: number, h: number): Bitmap {
+    const out = PImage.make(w, h);
+    const sx = img.width / w;
+    const sy = img.height / h;
+    forEachPixel(out, (x, y, i) => {
+        const x0 = Math.floor(x * sx);
+        const y0 = Math.floor(y * sy);
+        const x1 = Math.max(x0 + 1, Math.floor((x + 1) * sx));
+        const y1 = Math.max(y0 + 1, Math.floor((y + 1) * sy));
+        const sum = [0, 0, 0, 0];
+        let n = 0;
+        for (let yy = y0; yy < y1 && yy < img.height; yy++) {
+            for (let xx = x0; xx < x1 && xx < img.width; xx++) {
+                const j = (yy * img.width + xx) * 4;
+                for (let c = 0; c < 4; c++) sum[c] = (sum[c] as number) + (img.data[j + c] as number);
+                n++;
+            }
+        }
+        for (let c = 0; c < 4; c++) out.data[i + c] = Math.round((sum[c] as number) / Math.max(1, n));
+    });
+    return out;
+}
+
+function boxBlur(img: Bitmap, radius: number): Bitmap {
+    const out = PImage.make(img.width, img.height);
+    forEachPixel(out, (x, y, i) => {
+        const sum = [0, 0, 0];
+        let n = 0;
+        for (let yy = Math.max(0, y - radius); yy <= Math.min(img.height - 1, y + radius); yy++) {
+            for (let xx = Math.max(0, x - radius); xx <= Math.min(img.width - 1, x + radius); xx++) {
+                const j = (yy * img.width + xx) * 4;
+                for (let c = 0; c < 3; c++) sum[c] = (sum[c] as number) + (img.data[j + c] as number);
+                n++;
+            }
+        }
+        for (let c = 0; c < 3; c++) out.data[i + c] = Math.round((sum[c] as number) / n);
+        out.data[i + 3] = 255;
+    });
+    return out;
+}
+
+/**
+ * Return a normally distributed random number with mean 0 and standard deviation 1 (Box-Muller).
+ */
+function gaussian(random: () => number): number {
+    const u = Math.max(random(), Number.EPSILON);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function bezier(p: number[], t: number): number {
+    const s = 1 - t;
+    return s * s * s * (p[0] as number) + 3 * s * s * t * (p[1] as number) + 3 * s * t * t * (p[2] as number) + t * t * t * (p[3] as number);
+}
+
+function lerp(a: number, b: number, t: number): number {
+    return Math.round(a + (b - a) * t);
+}
+
+function clamp(v: number): number {
+    return Math.max(0, Math.min(255, Math.round(v)));
+}
+
+function round(v: number, digits = 2): number {
+    const f = Math.pow(10, digits);
+    return Math.round(v * f) / f;
+}
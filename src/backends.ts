@@ -0,0 +1,282 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as ocr from '@discoverfinancial/fin-ocr-sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheGeneration } from './cache.js';
+import { cliCtx } from './check.js';
+import { ConfigError } from './options.js';
+import { RestClient } from './rest.js';
+import { Util } from './util.js';
+import { WorkerPool } from './workers.js';
+
+/**
+ * The response of a scan, with the check which was scanned if it was scanned in this thread.
+ */
+export interface ScanResponse {
+    check?: ocr.Check;
+    response: ocr.CheckScanResponse;
+}
+
+export interface ScanOpts {
+    logFile?: string;
+    signal?: AbortSignal;
+}
+
+export type BackendKind = "local" | "workers" | "rest" | "replay";
+
+/**
+ * The engine by which a CheckMgr performs its scans.  A caching or recording backend wraps another backend,
+ * so its kind is the kind of the backend it wraps.
+ */
+export interface ScanBackend {
+    readonly kind: BackendKind;
+    scan(req: ocr.CheckScanRequest, opts: ScanOpts): Promise<ScanResponse>;
+    stop(): Promise<void>;
+}
+
+/**
+ * Scans with an instance of the SDK in this thread.
+ */
+export class LocalBackend implements ScanBackend {
+
+    public readonly kind = "local";
+    private instance: ocr.CheckMgr;
+    private console: Console;
+
+    public static async create(env: NodeJS.ProcessEnv, console: Console): Promise<LocalBackend> {
+        const instance = await ocr.CheckMgr.getInstanceByEnv(env);
+        instance.ocr.ctx.setConsole(console);
+        return new LocalBackend(instance, console);
+    }
+
+    private constructor(instance: ocr.CheckMgr, console: Console) {
+        this.instance = instance;
+        this.console = console;
+    }
+
+    public getContext(): ocr.Context {
+        return this.instance.ocr.ctx;
+    }
+
+    public async scan(req: ocr.CheckScanRequest, opts: ScanOpts): Promise<ScanResponse> {
+        const check = this.instance.newCheck(req.id);
+        if (opts.logFile) {
+            check.ctx.setConsole(new console.Console(fs.createWriteStream(opts.logFile)));
+        } else {
+            check.ctx.setConsole(this.console);
+        }
+        const response = await check.scan(req);
+        return { check, response };
+    }
+
+    public async stop() {
+        await this.instance.stop();
+    }
+
+}
+
+/**
+ * Scans in worker threads, each with its own instance of the SDK.
+ */
+export class WorkerBackend implements ScanBackend {
+
+    public readonly kind = "workers";
+    private pool: WorkerPool;
+
+    constructor(pool: WorkerPool) {
+        this.pool = pool;
+    }
+
+    public async scan(req: ocr.CheckScanRequest, opts: ScanOpts): Promise<ScanResponse> {
+        return { response: await this.pool.scan(req, opts) };
+    }
+
+    public async stop() {
+        await this.pool.stop();
+    }
+
+}
+
+/**
+ * Sends scans to the REST service, with the image buffer base64 encoded.
+ */
+export class RestBackend implements ScanBackend {
+
+    public readonly kind = "rest";
+    private client: RestClient;
+
+    constructor(client: RestClient) {
+        this.client = client;
+    }
+
+    public async scan(req: ocr.CheckScanRequest, opts: ScanOpts): Promise<ScanResponse> {
+        const url = `${this.client.getUrl()}/check/scan`;
+        const id = req.id;
+        cliCtx().debug(`Sending scan request to ${url} for request ${id}`);
+        req.image.buffer = (req.image.buffer as Buffer).toString("base64");
+        try {
+            const response = await this.client.post("/check/scan", req, opts.signal);
+            cliCtx().debug(`Received response from ${url} for request ${id}: ${JSON.stringify(response)}`);
+            return { response };
+        } catch (e: any) {
+            cliCtx().error(`Error from ${url} for request ${id}: ${e.message}`);
+            throw e;
+        }
+    }
+
+    public async stop() {}
+
+}
+
+/**
+ * Returns the response of an earlier scan of the same image from a cache generation rather than scanning it
+ * with another backend.  The responses are cached without the translator details, and with any images base64
+ * encoded.
+ */
+export class CachingBackend implements ScanBackend {
+
+    public readonly kind: BackendKind;
+    private backend: ScanBackend;
+    private generation: CacheGeneration;
+
+    constructor(backend: ScanBackend, generation: CacheGeneration) {
+        this.backend = backend;
+        this.kind = backend.kind;
+        this.generation = generation;
+    }
+
+    public async scan(req: ocr.CheckScanRequest, opts: ScanOpts): Promise<ScanResponse> {
+        // The key is computed first since the REST backend encodes the image buffer of the request
+        const key = CacheGeneration.key(req.image.buffer as Buffer, req.translators || [], req.debug);
+        const cached = this.generation.get(key);
+        if (cached) {
+            cliCtx().debug(`Found the response to request ${req.id} in the scan cache`);
+            return { response: { ...cached, id: req.id } };
+        }
+        const sr = await this.backend.scan(req, opts);
+        if (opts.signal && opts.signal.aborted) return sr;
+        const resp = sr.response;
+        const translators: {[name:string]: ocr.CheckScanTranslatorResponse} = {};
+        for (const [name, tr] of Object.entries(resp.translators || {})) {
+            const { details, ...rest } = tr as ocr.CheckScanTranslatorResponse;
+            translators[name] = rest as ocr.CheckScanTranslatorResponse;
+        }
+        const images = resp.images ? resp.images.map((image: ocr.NamedImageInfo) => ({ ...image })) : undefined;
+        this.generation.put(key, Util.toSerializable({ ...resp, images, translators } as ocr.CheckScanResponse));
+        return sr;
+    }
+
+    public async stop() {
+        this.generation.close();
+        const counts = this.generation.getCounts();
+        cliCtx().info(`Scan cache ${this.generation.getId()}: ${counts.hits} hits, ${counts.misses} misses`);
+        await this.backend.stop();
+    }
+
+}
+
+/**
+ * The description of a recording, written to its directory when recording starts.
+ */
+export interface RecordingInfo {
+    created: string;
+    kind: BackendKind;
+    translators: string[];
+    url?: string;
+    model?: { name: string, sha256?: string };
+    sdkVersion: string;
+}
+
+/**
+ * Saves the response of each scan of another backend to a directory, without its images, so that the scans
+ * can be replayed by a ReplayBackend.
+ */
+export class RecordingBackend implements ScanBackend {
+
+    public static readonly INFO_FILE = "recording.json";
+
+    public readonly kind: BackendKind;
+    private backend: ScanBackend;
+    private dir: string;
+
+    constructor(backend: ScanBackend, dir: string, info: Omit<RecordingInfo, "created" | "kind">) {
+        this.backend = backend;
+        this.kind = backend.kind;
+        this.dir = dir;
+        fs.mkdirSync(dir, { recursive: true });
+        const recording: RecordingInfo = { created: new Date().toISOString(), kind: backend.kind, ...info };
+        fs.writeFileSync(path.join(dir, RecordingBackend.INFO_FILE), JSON.stringify(recording, null, 4));
+    }
+
+    public async scan(req: ocr.CheckScanRequest, opts: ScanOpts): Promise<ScanResponse> {
+        const sr = await this.backend.scan(req, opts);
+        if (opts.signal && opts.signal.aborted) return sr;
+        const file = path.join(this.dir, responseFileName(req.id));
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(RecordingBackend.strip(sr.response)));
+        fs.renameSync(`${file}.tmp`, file);
+        return sr;
+    }
+
+    public async stop() {
+        await this.backend.stop();
+    }
+
+    /**
+     * Remove the images and the translator details, which hold images of characters, from a response.
+     */
+    private static strip(resp: ocr.CheckScanResponse): ocr.CheckScanResponse {
+        const translators: {[name:string]: ocr.CheckScanTranslatorResponse} = {};
+        for (const [name, tr] of Object.entries(resp.translators || {})) {
+            const { details, ...rest } = tr as ocr.CheckScanTranslatorResponse;
+            translators[name] = rest as ocr.CheckScanTranslatorResponse;
+        }
+        const { images, ...rest } = resp;
+        return { ...rest, translators } as ocr.CheckScanResponse;
+    }
+
+}
+
+/**
+ * Returns the responses saved by a RecordingBackend rather than scanning.
+ */
+export class ReplayBackend implements ScanBackend {
+
+    public readonly kind = "replay";
+    private dir: string;
+    private info?: RecordingInfo;
+
+    constructor(dir: string) {
+        this.dir = dir;
+        if (!fs.existsSync(dir)) throw new ConfigError(`The replay directory ${dir} does not exist; record it with --record`);
+        const infoFile = path.join(dir, RecordingBackend.INFO_FILE);
+        if (fs.existsSync(infoFile)) this.info = JSON.parse(fs.readFileSync(infoFile).toString());
+    }
+
+    public getDir(): string {
+        return this.dir;
+    }
+
+    public getInfo(): RecordingInfo | undefined {
+        return this.info;
+    }
+
+    public async scan(req: ocr.CheckScanRequest): Promise<ScanResponse> {
+        const file = path.join(this.dir, responseFileName(req.id));
+        if (!fs.existsSync(file)) throw new Error(`No response to check ${req.id} was recorded in ${this.dir}`);
+        return { response: JSON.parse(fs.readFileSync(file).toString()) };
+    }
+
+    public async stop() {}
+
+}
+
+/**
+ * Return the name of the file of the recorded response to a request, which is its id encoded to be safe
+ * as a file name.
+ */
+function responseFileName(id: string): string {
+    const safe = encodeURIComponent(id).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+    return `${safe}.json`;
+}
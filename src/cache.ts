@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as ocr from '@discoverfinancial/fin-ocr-sdk';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigError } from './options.js';
+
+/**
+ * Everything other than the request which affects the response to a scan.
+ */
+export interface CacheInputs {
+    // The URL of the REST service, if scans are sent to one
+    url?: string;
+    // The SHA-256 hash of the traineddata, if known
+    traineddata?: string;
+    sdkVersion: string;
+    // The OCR_* settings with which the SDK is configured
+    config: {[name:string]: string};
+}
+
+/**
+ * The description of the entries of the cache made with the same inputs.
+ */
+export interface GenerationInfo {
+    // The hash of the inputs, which is the name of the directory of the entries
+    id: string;
+    created: string;
+    lastUsed: string;
+    inputs: CacheInputs;
+    hits: number;
+    misses: number;
+}
+
+export interface GenerationStats extends GenerationInfo {
+    entries: number;
+    bytes: number;
+}
+
+/**
+ * An on-disk cache of scan responses.  An entry is keyed by the hash of the image, translators and requested
+ * debug images, within the directory of the generation keyed by the hash of the other inputs of the scan.  A
+ * change of the inputs, such as another model or SDK version, starts a new generation; the least recently
+ * used generations beyond a limit are deleted.
+ */
+export class ScanCache {
+
+    public static readonly INFO_FILE = "cache.json";
+
+    private dir: string;
+
+    public static open(dir?: string): ScanCache {
+        return new ScanCache(dir || process.env.SCAN_CACHE_DIR || path.join(process.env.HOME || "", ".fin-ocr", "cache"));
+    }
+
+    private constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    public getDir(): string {
+        return this.dir;
+    }
+
+    /**
+     * Return the generation of the inputs, creating it if it does not exist and then deleting the least
+     * recently used generations so that at most "max" remain.
+     */
+    public generation(inputs: CacheInputs, max: number): CacheGeneration {
+        if (!(max >= 1)) throw new ConfigError(`Invalid number of cache generations: ${max}`);
+        const id = crypto.createHash("sha256").update(JSON.stringify(inputs)).digest("hex").substring(0, 16);
+        const dir = path.join(this.dir, id);
+        const infoFile = path.join(dir, ScanCache.INFO_FILE);
+        let info: GenerationInfo;
+        if (fs.existsSync(infoFile)) {
+            info = JSON.parse(fs.readFileSync(infoFile).toString());
+        } else {
+            const now = new Date().toISOString();
+            info = { id, created: now, lastUsed: now, inputs, hits: 0, misses: 0 };
+            fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(infoFile, JSON.stringify(info, null, 4));
+            const others = this.list().filter(g => g.id !== id).sort((a, b) => b.lastUsed.localeCompare(a.lastUsed));
+            for (const g of others.slice(max - 1)) this.clear(g.id);
+        }
+        return new CacheGeneration(dir, info);
+    }
+
+    /**
+     * Return the generations with their number of entries and size, most recently used first.
+     */
+    public stats(): GenerationStats[] {
+        return this.list().map(info => {
+            const dir = path.join(this.dir, info.id);
+            let entries = 0;
+            let bytes = 0;
+            for (const name of fs.readdirSync(dir)) {
+                if (name === ScanCache.INFO_FILE) continue;
+                entries++;
+                bytes += fs.statSync(path.join(dir, name)).size;
+            }
+            return { ...info, entries, bytes };
+        }).sort((a, b) => b.lastUsed.localeCompare(a.lastUsed));
+    }
+
+    /**
+     * Delete a generation, or all generations.
+     * @returns The number of generations deleted
+     */
+    public clear(id?: string): number {
+        const ids = id ? [id] : this.list().map(g => g.id);
+        if (id && !fs.existsSync(path.join(this.dir, id, ScanCache.INFO_FILE))) throw new ConfigError(`There is no cache generation ${id} in ${this.dir}`);
+        for (const g of ids) fs.rmSync(path.join(this.dir, g), { recursive: true, force: true });
+        return ids.length;
+    }
+
+    private list(): GenerationInfo[] {
+        if (!fs.existsSync(this.dir)) return [];
+        const infos: GenerationInfo[] = [];
+        for (const name of fs.readdirSync(this.dir)) {
+            const file = path.join(this.dir, name, ScanCache.INFO_FILE);
+            if (fs.existsSync(file)) infos.push(JSON.parse(fs.readFileSync(file).toString()));
+        }
+        return infos;
+    }
+
+}
+
+/**
+ * The entries of the cache made with the same inputs.
+ */
+export class CacheGeneration {
+
+    private dir: string;
+    private info: GenerationInfo;
+    private hits = 0;
+    private misses = 0;
+
+    constructor(dir: string, info: GenerationInfo) {
+        this.dir = dir;
+        this.info = info;
+    }
+
+    /**
+     * Return the key of the entry of an image scanned by the given translators with the given debug images.
+     */
+    public static key(image: Buffer, translators: string[], debug?: string[]): string {
+        const hash = crypto.createHash("sha256").update(image);
+        hash.update(`\n${translators.join(",")}\n${[...(debug || [])].sort().join(",")}`);
+        return hash.digest("hex");
+    }
+
+    public getId(): string {
+        return this.info.id;
+    }
+
+    public get(key: string): ocr.CheckScanResponse | undefined {
+        const file = path.join(this.dir, `${key}.json`);
+        if (!fs.existsSync(file)) {
+            this.misses++;
+            return undefined;
+        }
+        this.hits++;
+        return JSON.parse(fs.readFileSync(file).toString());
+    }
+
+    /**
+     * Store a response, which must be serializable.
+     */
+    public put(key: string, resp: ocr.CheckScanResponse) {
+        const file = path.join(this.dir, `${key}.json`);
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(resp));
+        fs.renameSync(`${file}.tmp`, file);
+    }
+
+    public getCounts(): { hits: number, misses: number } {
+        return { hits: this.hits, misses: this.misses };
+    }
+
+    /**
+     * Add the hits and misses of this use of the generation to its totals.
+     */
+    public close() {
+        const infoFile = path.join(this.dir, ScanCache.INFO_FILE);
+        if (!fs.existsSync(infoFile)) return;
+        const info: GenerationInfo = JSON.parse(fs.readFileSync(infoFile).toString());
+        info.lastUsed = new Date().toISOString();
+        info.hits += this.hits;
+        info.misses += this.misses;
+        fs.writeFileSync(`${infoFile}.tmp`, JSON.stringify(info, null, 4));
+        fs.renameSync(`${infoFile}.tmp`, infoFile);
+        this.info = info;
+    }
+
+}
@@ -3,155 +3,394 @@
 */
 import * as PImage from 'pureimage';
 import * as ocr from '@discoverfinancial/fin-ocr-sdk';
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
+import { AugmentConfig, Augmenter, Band } from './augment.js';
+import { BackendKind, CachingBackend, LocalBackend, RecordingBackend, ReplayBackend, RestBackend, ScanBackend, ScanResponse, WorkerBackend } from './backends.js';
+import { CacheInputs, ScanCache } from './cache.js';
+import { CheckEntry } from './dataset.js';
+import { CheckGenerator, GeneratedCheck, GeneratedImageFormat, GeneratorOpts } from './generator.js';
+import { Micr, MicrFont } from './micr.js';
+import { ModelRegistry, ScanModel } from './models.js';
+import { ConfigError } from './options.js';
+import { RestClient } from './rest.js';
 import { Util } from './util.js';
+import { WorkerPool } from './workers.js';
 
 /**
  * The X9 interface defines the check fields of interest which are extracted from an X9 file.
  */
-interface X9 {
+export interface X9 {
     payorBankRoutingNumber: string;
     payorBankCheckDigit: string;
     onUs: string;
     auxiliaryOnUs: string;
+    // The amount field, which is only present for generated checks
+    amount?: string;
 }
 
 /**
  * Data pertaining to the manual evaluation of a specific set of checks from X9 files.
  */
-interface CheckEvalData {
+export interface CheckEvalData {
     // The reasons that the et of checks were no
-    mismatchesByReason?: {[reason:string]:number[]};
+    mismatchesByReason?: {[reason:string]:(number|string)[]};
     correctX9?: {[id:string]:string};
 }
 
-interface ScanResponse {
-    check?: ocr.Check;
-    response: ocr.CheckScanResponse;
+/**
+ * The options of the training data generator.
+ */
+export interface TrainingDataOpts {
+    seed?: number;
+    augment?: AugmentConfig;
+    // The name of a font in MICR_FONTS
+    font?: string;
+    // The font file, if not the font's file in the fonts directory
+    fontFile?: string;
+    // The font size in pixels
+    size?: number;
+    // The margin around the line in pixels
+    margin?: number;
+    // The number of spaces between fields
+    gap?: number;
+    auxOnUs?: boolean;
+    amount?: boolean;
+    // The fraction of the samples held out for evaluation
+    evalRatio?: number;
+}
+
+/**
+ * The resolved layout of the generated training lines, which is recorded with the training data.
+ */
+interface TrainingLayout {
+    font: string;
+    fontFile: string;
+    size: number;
+    margin: number;
+    gap: number;
+    auxOnUs: boolean;
+    amount: boolean;
 }
 
-const ctx = ocr.Context.obtain("cli", ocr.Config.fromEnv(process.env));
+/**
+ * The file in a model's tesstrain data directory which records the parameters of its generated training data.
+ */
+export const TRAINING_DATA_FILE = "training-data.json";
+
+/**
+ * The extensions of check image files in the checks directory, in order of preference.
+ */
+const CHECK_IMAGE_EXTS = ['tiff','tif', 'png', 'jpg', 'jpeg', 'gif', 'bmp' ];
+
+/**
+ * The CLI context is obtained on first use rather than when this module is loaded so that it reflects
+ * the settings applied by main.
+ */
+let ctx: ocr.Context | undefined;
+
+/**
+ * The console of all loggers, so that stdout contains only the output of a command.
+ */
+export const stderrConsole = new console.Console(process.stderr, process.stderr);
+
+export function cliCtx(): ocr.Context {
+    if (!ctx) {
+        ctx = ocr.Context.obtain("cli", ocr.Config.fromEnv(process.env));
+        ctx.setConsole(stderrConsole);
+    }
+    return ctx;
+}
 
 export class CheckMgr {
 
-    public static async getInstance(): Promise<CheckMgr | undefined> {
-        const cm = new CheckMgr();
+    /**
+     * Get a check manager whose local scans use the given model rather than the traineddata found by the
+     * environment.
+     */
+    public static async getInstance(model?: ScanModel): Promise<CheckMgr | undefined> {
+        const cm = new CheckMgr(model);
         const ok = await cm.init();
         if (!ok) return undefined;
         return cm;
     }
 
     private url = process.env.URL;
-    private instance?: ocr.CheckMgr;
+    private backend?: ScanBackend;
     private translators = (process.env.TRANSLATORS || "tesseract,opencv").split(",");
     private correct = process.env.ACTUAL != undefined;
     private actual = process.env.ACTUAL;
     private correctionsDir = process.env.CORRECTIONS_DIR || path.join("files","corrections");
-    private checksDir = process.env.CHECKS_DIR || `${process.env.HOME}/.fin-ocr/checks`;
+    private checksDir = CheckMgr.defaultChecksDir();
+    private model?: ScanModel;
+    // The environment by which the SDK is configured
+    private env: NodeJS.ProcessEnv;
+
+    private constructor(model?: ScanModel) {
+        this.model = model;
+        this.env = model ? { ...process.env, TESSDATA_PREFIX: model.dir, OCR_FONT: model.font } : process.env;
+    }
+
+    public static defaultChecksDir(): string {
+        return process.env.CHECKS_DIR || `${process.env.HOME}/.fin-ocr/checks`;
+    }
 
     private async init(): Promise<boolean> {
         if (!fs.existsSync(this.correctionsDir)) fs.mkdirSync(this.correctionsDir, {recursive: true});
-        if (this.url) {
+        const recordDir = process.env.SCAN_RECORD_DIR;
+        const replayDir = process.env.SCAN_REPLAY_DIR;
+        if (recordDir && replayDir) throw new ConfigError("Set either --record or --replay but not both");
+        let backend: ScanBackend;
+        let health: any;
+        if (replayDir) {
+            // Scans are replayed whether or not a URL or model is set
+            const replay = new ReplayBackend(replayDir);
+            const recorded = replay.getInfo();
+            if (recorded && recorded.translators.join(",") !== this.translators.join(",")) {
+                cliCtx().warn(`The responses in ${replayDir} were recorded with translators ${recorded.translators.join(",")} rather than ${this.translators.join(",")}`);
+            }
+            cliCtx().info(`Replaying the scans recorded in ${replayDir}`);
+            backend = replay;
+        } else if (this.url) {
             const url = `${this.url}/health`;
+            const rest = RestClient.fromEnv(this.url);
             try {
-                const rtn = await axios.get(url, {proxy: false});
-                ctx.debug(`health check worked: ${JSON.stringify(rtn.data)}`);
-                return true;
+                health = await rest.health(Util.getNum("HEALTH_RETRIES", 5) as number);
+                cliCtx().debug(`health check worked: ${JSON.stringify(health)}`);
             } catch (e: any) {
-                const suffix = e.response ? `: ${e.response.data}`: "";
-                ctx.error(`Failed response from ${url}: ${e.message}${suffix}`);
+                cliCtx().error(`Failed response from ${url}: ${e.message}`);
                 return false;
             }
+            backend = new RestBackend(rest);
+        } else if (Util.getBool("WORKER_THREADS", false)) {
+            // Scan in worker threads, each with its own instance of the SDK
+            const size = Util.getNum("WORKERS", Util.getNum("CONCURRENCY", 25)) as number;
+            backend = new WorkerBackend(new WorkerPool(size, cliCtx(), this.env));
+            cliCtx().info(`Scanning in ${size} worker threads`);
         } else {
-            this.instance = await ocr.CheckMgr.getInstanceByEnv(process.env);
-            return true;
+            backend = await LocalBackend.create(this.env, stderrConsole);
         }
+        if (Util.getBool("SCAN_CACHE", false) && !replayDir) {
+            if (this.correct) {
+                // Corrections require the translator details, which are not cached
+                cliCtx().warn("The scan cache is not used when storing corrections");
+            } else {
+                const inputs = this.getCacheInputs(health);
+                if (inputs) {
+                    const cache = ScanCache.open();
+                    const generation = cache.generation(inputs, Util.getNum("SCAN_CACHE_GENERATIONS", 4) as number);
+                    backend = new CachingBackend(backend, generation);
+                    cliCtx().info(`Using generation ${generation.getId()} of the scan cache in ${cache.getDir()}`);
+                }
+            }
+        }
+        if (recordDir) {
+            const model = this.getModel();
+            backend = new RecordingBackend(backend, recordDir, {
+                translators: this.translators,
+                url: this.url,
+                model: model ? { name: model.name, sha256: model.sha256 } : undefined,
+                sdkVersion: Util.getPackageVersion("@discoverfinancial/fin-ocr-sdk"),
+            });
+            cliCtx().info(`Recording the scan responses in ${recordDir}`);
+        }
+        this.backend = backend;
+        return true;
     }
 
-    public async generateCheckImages(count: number): Promise<void> {
+    /**
+     * Return the inputs of the scans other than the requests, which key the generation of the scan cache.  The
+     * traineddata and SDK version of a REST service are those reported by its health check, if any.  If the
+     * hash of the traineddata is unknown, a change of the model could not be detected, so a warning is logged
+     * and undefined is returned so that the cache is not used.
+     */
+    private getCacheInputs(health?: any): CacheInputs | undefined {
+        const config: {[name:string]: string} = {};
+        for (const name of Object.keys(this.env).sort()) {
+            // The log level does not affect the response
+            if (name.startsWith("OCR_") && name !== "OCR_LOG_LEVEL") config[name] = this.env[name] as string;
+        }
+        const sdkVersion = Util.getPackageVersion("@discoverfinancial/fin-ocr-sdk");
+        if (this.url) {
+            const traineddata = health?.model?.sha256;
+            if (!traineddata) {
+                cliCtx().warn(`The scan cache is not used because the health check of ${this.url} does not report the sha256 of its model`);
+                return undefined;
+            }
+            return { url: this.url, traineddata, sdkVersion: health?.sdkVersion || sdkVersion, config };
+        }
+        let traineddata = this.model?.sha256;
+        const file = path.join(this.env.TESSDATA_PREFIX || "", `${this.env.OCR_FONT || "micr_e13b"}.traineddata`);
+        if (!traineddata && fs.existsSync(file)) traineddata = ModelRegistry.sha256(file);
+        if (!traineddata) {
+            cliCtx().warn(`The scan cache is not used because the model is unknown and ${file} does not exist`);
+            return undefined;
+        }
+        return { traineddata, sdkVersion, config };
+    }
+
+    /**
+     * Generate checks 1 through "count" in the checks directory, each with a check-N image and a check-N.json
+     * file containing its ground truth in the X9 shape.  If augmentations are given, the augmentations applied
+     * to each check are recorded in its check-N.augment.json file.
+     */
+    public async generateCheckImages(count: number, opts: GeneratorOpts & { format: GeneratedImageFormat, augment?: AugmentConfig }): Promise<void> {
         // Create checks directory if it doesn't exist
         if (!fs.existsSync(this.checksDir)) {
             fs.mkdirSync(this.checksDir, { recursive: true });
         }
 
+        const generator = new CheckGenerator(opts);
+        const augmenter = opts.augment ? new Augmenter(opts.augment, opts.seed) : undefined;
         for (let i = 1; i <= count; i++) {
-            const filePath = path.join(this.checksDir, `check-${i}.png`);
-            const imageData = await this.generateCheckImage(i);
-            fs.writeFileSync(filePath, imageData.toString());
-            ctx.info(`Generated check image: ${filePath}`);
+            const check = generator.next();
+            const filePath = path.join(this.checksDir, `check-${i}.${opts.format}`);
+            // Remove an image of this check in another format, which would otherwise be scanned instead
+            for (const ext of CHECK_IMAGE_EXTS) {
+                const other = path.join(this.checksDir, `check-${i}.${ext}`);
+                if (other !== filePath && fs.existsSync(other)) fs.unlinkSync(other);
+            }
+            const recordFile = path.join(this.checksDir, `check-${i}.augment.json`);
+            if (!augmenter && fs.existsSync(recordFile)) fs.unlinkSync(recordFile);
+            const img = await this.generateCheckImage(check, augmenter, recordFile);
+            fs.writeFileSync(filePath, await Util.encodeImage(img, opts.format));
+            fs.writeFileSync(this.getCheckJsonFile(i), JSON.stringify(check.x9, null, 4));
+            cliCtx().info(`Generated check image: ${filePath}`);
         }
-        if (fs.existsSync('temp.png')) {
-            fs.unlinkSync('temp.png');
-            ctx.info(`Deleted temporary file: ${'temp.png'}`);
+    }
+
+    /**
+     * Return the files of checks 1 through "count" which would be overwritten by generating that many checks.
+     */
+    public getExistingCheckFiles(count: number): string[] {
+        const files: string[] = [];
+        for (let i = 1; i <= count; i++) {
+            for (const ext of [...CHECK_IMAGE_EXTS, "json"]) {
+                const file = path.join(this.checksDir, `check-${i}.${ext}`);
+                if (fs.existsSync(file)) files.push(file);
+            }
         }
+        return files;
     }
 
-    public async generateTrainingData(modelName: string, count: number): Promise<void> {
-        const trainDir = process.env.TESSTRAIN_DATA_DIR || path.join(process.env.HOME || '', '.fin-ocr', 'train', 'tesstrain', 'data');
+    /**
+     * Generate "count" MICR line images and their ground truth text for training a tesseract model with tesstrain.
+     * The ground truth is the T/U/A/D transcription of the symbols and spacing drawn in the font, and the split of the
+     * samples into training and evaluation sets is recorded in the model's tesstrain data directory, from which
+     * "writeTrainingLists" writes it to the list files once tesstrain has built the .lstmf files.
+     * If augmentations are given, the augmentations applied to each image are recorded in its check-N.augment.json file.
+     */
+    public async generateTrainingData(modelName: string, count: number, opts?: TrainingDataOpts): Promise<void> {
+        const trainDir = CheckMgr.trainingDataDir();
         const outputDir = path.join(trainDir, `${modelName}-ground-truth`);
+        const modelDir = path.join(trainDir, modelName);
+        fs.mkdirSync(outputDir, { recursive: true });
+        fs.mkdirSync(modelDir, { recursive: true });
 
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
-        }
+        opts = opts || {};
+        const seed = opts.seed ?? Date.now() % 2147483647;
+        const font = Micr.getFont(opts.font || "micr");
+        const layout: TrainingLayout = {
+            font: font.name,
+            fontFile: Micr.getFontFile(font, opts.fontFile),
+            size: opts.size ?? font.size,
+            margin: opts.margin ?? 4,
+            gap: opts.gap ?? 2,
+            auxOnUs: opts.auxOnUs === true,
+            amount: opts.amount === true,
+        };
+        const evalRatio = opts.evalRatio ?? 0.1;
+        if (evalRatio < 0 || evalRatio >= 1) throw new Error(`Invalid eval ratio ${evalRatio}; expecting a number in [0,1)`);
+        const pImageFont = PImage.registerFont(layout.fontFile, font.family);
+        await pImageFont.load();
 
+        const generator = new CheckGenerator({ seed, auxOnUs: layout.auxOnUs, amount: layout.amount, gap: layout.gap });
+        const augmenter = opts.augment ? new Augmenter(opts.augment, seed) : undefined;
         for (let i = 1; i <= count; i++) {
-            const [routingNumber, accountNumber, checkNumber] = this.generateRandomCheckDetails();
-            const micrLine = `A${routingNumber}A  ${accountNumber}C  ${checkNumber}`;
-            
-            const imageBuffer = await this.generateMicrLineImage(micrLine);
-            const imagePath = path.join(outputDir, `check-${i}.png`);
-            fs.writeFileSync(imagePath, imageBuffer.toString());
-
-            // const checkInfo = {
-            //     id: `check-${i}`,
-            //     fileName: `generated.dat`,
-            //     fileSeqNo: i,
-            //     routingNumber: routingNumber,
-            //     accountNumber: accountNumber,
-            //     checkNumber: checkNumber,
-            //     auxiliaryOnUs: checkNumber,
-            //     payorBankRoutingNumber: routingNumber.slice(0, -1), // First 8 digits
-            //     PayorBankCheckDigit: routingNumber.slice(-1),
-            //     onUs: `${accountNumber}/`,
-            // };
-            // const jsonFilePath = path.join(trainDir, `check-${i}.json`);
-            // fs.writeFileSync(jsonFilePath, JSON.stringify(checkInfo, null, 4));
-    
-             const micrGroundTruth = `T${routingNumber}T  ${accountNumber}U  ${checkNumber}`;
-              const gtFilePath = path.join(outputDir, `check-${i}.gt.txt`);
-              fs.writeFileSync(gtFilePath, micrGroundTruth);
-
-
-
-            console.log(`Generated training data for MICR line ${i}`);
-        }
-        console.log(`Training data generation complete. Files saved in ${trainDir}`);
-    }
-
-    private async generateMicrLineImage(micrLine: string): Promise<Buffer> {
-        const width = 365; 
-        const height = 18; 
+            const { transcription } = generator.next();
+            let img = this.generateLineImage(Micr.toGlyphs(transcription, font), font, layout);
+            if (augmenter) img = await this.augment(img, augmenter, { y0: 0, y1: img.height }, path.join(outputDir, `check-${i}.augment.json`));
+            fs.writeFileSync(path.join(outputDir, `check-${i}.png`), await Util.encodeImage(img, "png"));
+            fs.writeFileSync(path.join(outputDir, `check-${i}.gt.txt`), Micr.transcribe(transcription, font));
+            cliCtx().debug(`Generated training data for MICR line ${i}`);
+        }
 
-        const img = PImage.make(width, height);
-        const ctx = img.getContext('2d');
+        // Split the samples by a seeded shuffle so that the same seed gives the same split
+        const ids = Array.from({ length: count }, (_, i) => i + 1);
+        const random = Util.seededRandom(Util.deriveSeed(seed, "split"));
+        for (let i = ids.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [ids[i], ids[j]] = [ids[j] as number, ids[i] as number];
+        }
+        let evalCount = Math.round(count * evalRatio);
+        if (evalCount === 0 && evalRatio > 0 && count > 1) evalCount = 1;
+        const evalIds = ids.slice(0, evalCount).sort((a, b) => a - b);
+        const trainIds = ids.slice(evalCount).sort((a, b) => a - b);
+        fs.writeFileSync(path.join(modelDir, TRAINING_DATA_FILE), JSON.stringify({
+            modelName, count, seed, evalRatio, ...layout, augment: opts.augment, train: trainIds, eval: evalIds,
+        }, null, 4));
+        cliCtx().info(`Generated ${count} samples in ${outputDir}; ${trainIds.length} for training and ${evalIds.length} for evaluation recorded in ${path.join(modelDir, TRAINING_DATA_FILE)}`);
+    }
 
-        const micrFont = PImage.registerFont(process.env.TESSDATA_PREFIX + '/fonts/GnuMICR.ttf', 'MICR');
-        await micrFont.load();
+    /**
+     * Write the split of the training data generated for a model to the list.train and list.eval files of its
+     * tesstrain data directory.  tesstrain's lists target builds these files from its all-lstmf file with its own
+     * split, and again whenever all-lstmf is rebuilt from newer .lstmf files, so the split must be written after
+     * "make lists" has built the .lstmf files; "make training" then finds the lists up to date and uses them.
+     * @returns The directory of the lists and the number of samples in each
+     */
+    public static writeTrainingLists(modelName: string): { dir: string, train: number, eval: number } {
+        const trainDir = CheckMgr.trainingDataDir();
+        const outputDir = path.join(trainDir, `${modelName}-ground-truth`);
+        const modelDir = path.join(trainDir, modelName);
+        const file = path.join(modelDir, TRAINING_DATA_FILE);
+        if (!fs.existsSync(file)) throw new ConfigError(`${file} was not found; generate the training data of model ${modelName} with 'ocr training generate'`);
+        const data = JSON.parse(fs.readFileSync(file).toString()) as { train: number[], eval: number[] };
+        const lstmf = (id: number) => path.resolve(outputDir, `check-${id}.lstmf`);
+        const missing = [...data.train, ...data.eval].map(lstmf).filter(f => !fs.existsSync(f));
+        if (missing.length > 0) {
+            throw new ConfigError(`${missing.length} .lstmf files, such as ${missing[0]}, have not been built; run 'make lists MODEL_NAME=${modelName} DATA_DIR=${trainDir}' in tesstrain first`);
+        }
+        fs.writeFileSync(path.join(modelDir, "list.train"), data.train.map(id => lstmf(id) + "\n").join(""));
+        fs.writeFileSync(path.join(modelDir, "list.eval"), data.eval.map(id => lstmf(id) + "\n").join(""));
+        return { dir: modelDir, train: data.train.length, eval: data.eval.length };
+    }
+
+    private static trainingDataDir(): string {
+        return process.env.TESSTRAIN_DATA_DIR || path.join(process.env.HOME || '', '.fin-ocr', 'train', 'tesstrain', 'data');
+    }
+
+    /**
+     * Apply the augmentations chosen for an image, recording them in a JSON file.
+     */
+    private async augment(img: PImage.Bitmap, augmenter: Augmenter, band: Band, recordFile: string): Promise<PImage.Bitmap> {
+        const r = await augmenter.apply(img, band);
+        fs.writeFileSync(recordFile, JSON.stringify({ augmentations: r.applied }, null, 4));
+        return r.image;
+    }
 
+    /**
+     * Draw a line of text in a font, sized to fit the text with a margin on every side.
+     */
+    private generateLineImage(text: string, font: MicrFont, layout: TrainingLayout): PImage.Bitmap {
+        const font2d = `${layout.size}px ${font.family}`;
+        const metrics = PImage.make(1, 1).getContext('2d');
+        metrics.font = font2d;
+        const m = metrics.measureText(text);
+        const width = Math.ceil(m.width) + 2 * layout.margin;
+        const height = Math.ceil(m.emHeightAscent + m.emHeightDescent) + 2 * layout.margin;
+
+        const img = PImage.make(width, height);
+        const ctx = img.getContext('2d');
         ctx.fillStyle = 'white';
         ctx.fillRect(0, 0, width, height);
-
         ctx.fillStyle = '#000000';
-        ctx.font = '16px MICR';
-
-        ctx.fillText(micrLine, 10, height / 2 + 6); 
-        const buffer = await PImage.encodePNGToStream(img, fs.createWriteStream('temp_micr.png'));
-        return fs.readFileSync('temp_micr.png');
+        ctx.font = font2d;
+        ctx.fillText(text, layout.margin, layout.margin + m.emHeightAscent);
+        return img;
     }
 
-    private async generateCheckImage(checkSeqNumber: number): Promise<Buffer> {
+    private async generateCheckImage(check: GeneratedCheck, augmenter?: Augmenter, recordFile?: string): Promise<PImage.Bitmap> {
         const width = 600;
         const height = 250;
 
@@ -164,8 +403,6 @@ export class CheckMgr {
         const arialFont = PImage.registerFont(process.env.TESSDATA_PREFIX + '/fonts/Roboto-Regular.ttf', 'Roboto');
         await arialFont.load();
 
-        const [routingNumber, accountNumber, checkNumber] = this.generateRandomCheckDetails();
-
         ctx.fillStyle = 'white';
         ctx.fillRect(0, 0, width, height);
         ctx.strokeStyle = '#000000';
@@ -176,7 +413,7 @@ export class CheckMgr {
         ctx.fillText('FIN-OCR Bank', 20, 40);
 
         ctx.font = 'bold 16px Roboto';
-        ctx.fillText('Check No. ' + checkNumber, width - 150, 40);
+        ctx.fillText('Check No. ' + check.checkNumber, width - 150, 40);
 
         const today = new Date();
         const formattedDate = today.toLocaleDateString('en-US', {
@@ -195,68 +432,93 @@ export class CheckMgr {
         ctx.fillRect(width - 120, height - 55, 100, 2);
 
         ctx.font = '16px MICR';
-        const micrLine = `A${routingNumber}A  ${accountNumber}C  ${checkNumber}`;
-        ctx.fillText(micrLine, 20, height - 25);
+        ctx.fillText(check.micrLine, 20, height - 25);
 
-
-        const buffer = await PImage.encodePNGToStream(img, fs.createWriteStream('temp.png'));
-
-        return fs.readFileSync('temp.png');
+        if (augmenter && recordFile) return await this.augment(img, augmenter, { y0: height - 41, y1: height - 21 }, recordFile);
+        return img;
     }
 
     public getChecksDir(): string {
         return this.checksDir;
     }
 
+    public getTranslators(): string[] {
+        return this.translators;
+    }
+
+    public getUrl(): string | undefined {
+        return this.url;
+    }
 
-    private generateRandomCheckDetails(): [string, string, string] {
-      const routingNumber = Array.from({
-          length: 9
-      }, () => Math.floor(Math.random() * 10)).join('');
-      const accountNumber = Array.from({
-          length: 9
-      }, () => Math.floor(Math.random() * 10)).join('');
-      const checkNumber = Array.from({
-          length: 4
-      }, () => Math.floor(Math.random() * 10)).join('');
-      return [routingNumber, accountNumber, checkNumber];
+    /**
+     * Return the kind of the backend which performs the scans.
+     */
+    public getBackendKind(): BackendKind {
+        if (process.env.SCAN_REPLAY_DIR) return "replay";
+        if (this.url) return "rest";
+        return Util.getBool("WORKER_THREADS", false) ? "workers" : "local";
     }
 
+    /**
+     * Return the model of local scans, if other than the traineddata found by the environment.
+     */
+    public getModel(): ScanModel | undefined {
+        const kind = this.getBackendKind();
+        return kind === "local" || kind === "workers" ? this.model : undefined;
+    }
+
+
     public getContext(): ocr.Context {
-        if (this.instance) return this.instance.ocr.ctx;
-        return ctx;
+        if (this.backend instanceof LocalBackend) return this.backend.getContext();
+        return cliCtx();
+    }
+
+    public async scanById(id: number | string, opts?: { comparer?: CheckComparer, debug?: string[], debugImageDir?: string, logLevel?: string, logFile?: string }): Promise<ocr.CheckScanResponse> {
+        return await this.scanEntry({ id: id.toString() }, opts);
     }
 
-    public async scanById(id: number, opts?: { comparer?: CheckComparer, debug?: string[], debugImageDir?: string, logLevel?: string, logFile?: string }): Promise<ocr.CheckScanResponse> {
-        const file = this.getCheckFile(id);
+    public async scanEntry(entry: CheckEntry, opts?: { comparer?: CheckComparer, debug?: string[], debugImageDir?: string, logLevel?: string, logFile?: string, signal?: AbortSignal }): Promise<ocr.CheckScanResponse> {
+        const file = entry.image || this.getCheckFile(entry.id);
         opts = opts || {};
         const comparer = opts.comparer;
         const debug = opts.debug;
         const debugImageDir = opts.debugImageDir;
         const logLevel = opts.logLevel;
         const logFile = opts.logFile;
-        return await this.scan(file, {id, comparer, debug, debugImageDir, logLevel, logFile});
+        const signal = opts.signal;
+        return await this.scan(file, {id: entry.id, groundTruth: entry.groundTruth, comparer, debug, debugImageDir, logLevel, logFile, signal});
     }
 
-    public async preprocessById(id: number, comparer: CheckComparer, groundTruthDir: string): Promise<ocr.CheckScanResponse> {
-        const file = this.getCheckFile(id);
-        return await this.scan(file, { id, comparer, groundTruthDir, debug: ["MICR"] });
+    public async preprocessById(id: number | string, comparer: CheckComparer, groundTruthDir: string): Promise<ocr.CheckScanResponse> {
+        return await this.preprocessEntry({ id: id.toString() }, comparer, groundTruthDir);
     }
 
-    public async scan(file: string, opts?: { id?: number, comparer?: CheckComparer, groundTruthDir?: string, debug?: string[], debugImageDir?: string, logLevel?: string, logFile?: string}): Promise<ocr.CheckScanResponse> {
-        console.log(`Starting scan for file: ${file}`);
-        console.log(`opts `+JSON.stringify(opts))
+    public async preprocessEntry(entry: CheckEntry, comparer: CheckComparer, groundTruthDir: string, signal?: AbortSignal): Promise<ocr.CheckScanResponse> {
+        const file = entry.image || this.getCheckFile(entry.id);
+        return await this.scan(file, { id: entry.id, groundTruth: entry.groundTruth, comparer, groundTruthDir, debug: ["MICR"], signal });
+    }
+
+    /**
+     * Scan a check image.  The image is read from the file unless its contents are given in "buffer", such as
+     * when read from stdin.  The image format is detected from its magic bytes, or else from the file extension.
+     */
+    public async scan(file: string, opts?: { id?: string, buffer?: Buffer, groundTruth?: X9 | string, comparer?: CheckComparer, groundTruthDir?: string, debug?: string[], debugImageDir?: string, logLevel?: string, logFile?: string, signal?: AbortSignal}): Promise<ocr.CheckScanResponse> {
+        cliCtx().debug(`Starting scan for file: ${file}`);
         opts = opts || {};
-        const id = opts.id ? opts.id.toString() : file;
+        const id = opts.id || file;
         const comparer = opts.comparer;
         const debugImageDir = opts.debugImageDir;
 
-        console.log(`Reading the image file: ${file}`);
-        const buffer = fs.readFileSync(file);
+        let buffer = opts.buffer;
+        if (!buffer) {
+            cliCtx().debug(`Reading the image file: ${file}`);
+            buffer = fs.readFileSync(file);
+        }
 
         const pp = path.parse(file);
-        const format = this.getImageFormat(pp.ext.substring(1));
-        console.log(`Parsed file info - Name: ${pp.name}, Extension: ${pp.ext}, Format: ${format}`);
+        const detected = Util.detectImageExt(buffer);
+        const format = CheckMgr.getImageFormat(detected || pp.ext.substring(1).toLowerCase());
+        cliCtx().debug(`Parsed file info - Name: ${pp.name}, Extension: ${pp.ext}, Format: ${format}`);
 
         const req: ocr.CheckScanRequest = {
             id,
@@ -266,39 +528,36 @@ export class CheckMgr {
             logLevel: opts.logLevel,
         };
 
-        console.log(`Sending scan request for ID: ${id}`);
-        const sr = await this.getScanResponse(req, { logFile: opts.logFile });
+        cliCtx().debug(`Sending scan request for ID: ${id}`);
+        const sr = await this.getScanResponse(req, { logFile: opts.logFile, signal: opts.signal });
         const resp = sr.response;
-        console.log(`Received scan response for ID: ${id}`);
+        cliCtx().debug(`Received scan response for ID: ${id}`);
+        if (opts.signal && opts.signal.aborted) {
+            // The job timed out while the scan was running, so it has already been recorded as failed
+            if (sr.check) sr.check.clear();
+            throw opts.signal.reason;
+        }
 
         if (comparer && opts.id) {
-            const jsonFile = `${path.join(pp.dir, pp.name)}.json`;
-            console.log(`Checking for ground truth JSON file: ${jsonFile}`);
+            const x9 = this.getGroundTruth(file, opts.groundTruth);
+            cliCtx().debug(`Comparing scan response with ground truth for ID: ${opts.id}`);
 
-            if (!fs.existsSync(jsonFile)) {
-                console.error(`Ground truth file does not exist: ${jsonFile}`);
-                throw new Error(`file ${jsonFile} does not exist`);
-            }
-
-            const buf = fs.readFileSync(jsonFile);
-            const x9 = JSON.parse(buf.toString());
-            console.log(`Comparing scan response with ground truth for ID: ${opts.id}`);
-
-            const match = comparer.compare(opts.id, x9, resp, ctx);
+            const match = comparer.compare(opts.id, x9, resp, cliCtx());
             if (resp.images && opts.groundTruthDir && match) {
-                console.log(`Ground truth match found for ID: ${opts.id}. Writing ground truth...`);
-                await this.writeGroundTruth(resp.images, opts.groundTruthDir, opts.id);
+                cliCtx().debug(`Ground truth match found for ID: ${opts.id}. Writing ground truth...`);
+                await this.writeGroundTruth(resp.images, opts.groundTruthDir, opts.id, x9);
             }
         }
 
-        if (this.correct && opts.id) {
-            console.log(`Storing corrections for ID: ${opts.id}`);
+        // Corrections require the translator details which are only available from a local scan
+        if (this.correct && opts.id && sr.check) {
+            cliCtx().debug(`Storing corrections for ID: ${opts.id}`);
             await this.storeCorrections(opts.id, sr.response);
         }
 
         if (debugImageDir && resp.images) {
-            console.log(`Writing debug images for ID: ${opts.id || file}`);
-            await this.writeDebugImages(pp.name, resp.images, debugImageDir);
+            cliCtx().debug(`Writing debug images for ID: ${opts.id || file}`);
+            await this.writeDebugImages(opts.id ? `check-${opts.id}` : pp.name, resp.images, debugImageDir);
         }
 
         // sr.check won't be there if this was a CLI action processed
@@ -307,49 +566,46 @@ export class CheckMgr {
             sr.check.clear(); // releases native memory
         }
 
-        console.log(`Completed scan for file: ${file}`);
+        cliCtx().debug(`Completed scan for file: ${file}`);
         return resp;
     }
 
 
+    /**
+     * Scan a request received by the REST service, whose image buffer is base64 encoded, and return the
+     * response with its images base64 encoded to be sent as JSON.
+     */
+    public async scanRequest(req: ocr.CheckScanRequest, signal?: AbortSignal): Promise<ocr.CheckScanResponse> {
+        if (this.getBackendKind() === "rest") throw new ConfigError("Requests received by the REST service are not sent to another; unset URL");
+        req.image.buffer = Buffer.from(req.image.buffer as string, "base64");
+        req.translators = req.translators || this.translators;
+        const sr = await this.getScanResponse(req, { signal });
+        try {
+            return Util.toSerializable(sr.response);
+        } finally {
+            if (sr.check) sr.check.clear();
+        }
+    }
+
     public newCheckComparer(): CheckComparer {
         const checkEvalData = this.getCheckEvalData();
         return new CheckComparer({checkEvalData});
     }
 
     public async stop() {
-        if (this.instance) await this.instance.stop();
+        if (this.backend) await this.backend.stop();
     }
 
-    private async getScanResponse(req: ocr.CheckScanRequest, opts?: {logFile?: string}): Promise<ScanResponse> {
-        opts = opts || {};
-        if (this.url) {
-            const url = `${this.url}/check/scan`;
-            const id = req.id;
-            ctx.debug(`Sending scan request to ${url} for request ${id}`);
-            req.image.buffer = Util.base64Encode(req.image.buffer as Buffer);
-            try {
-                const response = await axios.post(url, req, {proxy: false});
-                ctx.debug(`Received response from ${url} for request ${id}: ${JSON.stringify(response.data)}`);
-                return { response: response.data };
-            } catch (e: any) {
-                ctx.error(`Error from ${url} for request ${id}: ${e.message}`);
-                throw e;
-            }
-        } else {
-            const cm = this.instance as ocr.CheckMgr;
-            if (!cm) throw new Error("unexpected state");
-            const check = cm.newCheck(req.id)
-            if (opts.logFile) {
-                check.ctx.setConsole(new console.Console(fs.createWriteStream(opts.logFile)))
-            }
-            const response = await check.scan(req);
-            return { check, response };
-        }
-
+    private async getScanResponse(req: ocr.CheckScanRequest, opts?: {logFile?: string, signal?: AbortSignal}): Promise<ScanResponse> {
+        if (!this.backend) throw new Error("unexpected state");
+        return await this.backend.scan(req, opts || {});
     }
 
-    private getImageFormat(ext: string): ocr.ImageFormat {
+    /**
+     * Return the SDK image format of a file extension, throwing if it is not supported.
+     */
+    public static getImageFormat(ext: string): ocr.ImageFormat {
+        if (!ext) throw new Error(`Unrecognized image format`);
         if (ext === 'tif' || ext === 'tiff') return ocr.ImageFormat.TIF;
         if (ext === 'jpg' || ext === 'jpeg') return ocr.ImageFormat.JPG;
         if (ext === 'png') return ocr.ImageFormat.PNG;
@@ -358,48 +614,64 @@ export class CheckMgr {
         throw new Error(`Unsupported image extension: ${ext}`);
     }
 
-    public getCheckFile(id: number): string {
-        const extensions = ['tiff','tif', 'png', 'jpg', 'jpeg', 'gif', 'bmp' ];
-        for (const ext of extensions) {
-            const filePath = path.join(this.checksDir, `check-${id}.${ext}`);
+    /**
+     * Get the ground truth for a check image, which is either given explicitly, read from the given JSON file,
+     * or read from the JSON file with the same prefix as the image file.
+     */
+    public getGroundTruth(imageFile: string, groundTruth?: X9 | string): X9 {
+        if (groundTruth && typeof groundTruth !== "string") return groundTruth;
+        let jsonFile = groundTruth;
+        if (!jsonFile) {
+            const pp = path.parse(imageFile);
+            jsonFile = `${path.join(pp.dir, pp.name)}.json`;
+        }
+        cliCtx().debug(`Checking for ground truth JSON file: ${jsonFile}`);
+        if (!fs.existsSync(jsonFile)) {
+            throw new Error(`file ${jsonFile} does not exist`);
+        }
+        const buf = fs.readFileSync(jsonFile);
+        return JSON.parse(buf.toString());
+    }
+
+    public getCheckFile(id: number | string): string {
+        const file = CheckMgr.findCheckFile(this.checksDir, id);
+        if (!file) throw new Error(`No image file found for check ID ${id} in supported formats.`);
+        return file;
+    }
+
+    /**
+     * Return the image file of a check in a checks directory, if any.
+     */
+    public static findCheckFile(checksDir: string, id: number | string): string | undefined {
+        for (const ext of CHECK_IMAGE_EXTS) {
+            const filePath = path.join(checksDir, `check-${id}.${ext}`);
             if (fs.existsSync(filePath)) {
                 return filePath;
             }
         }
-        throw new Error(`No image file found for check ID ${id} in supported formats.`);
+        return undefined;
     }
 
-    private async writeGroundTruth(images: ocr.NamedImageInfo[], dir: string, id: number) {
+    private async writeGroundTruth(images: ocr.NamedImageInfo[], dir: string, id: string, x9: X9) {
         let buf = this.getImage(images, "MICR");
         if (!buf) throw Error(`MICR image not found for check ${id}`);
-        const jsonFile = this.getCheckJsonFile(id);
         const prefix = path.join(dir, `check-${id}`);
         const preprocessedImageFile = `${prefix}.tif`;
         const groundTruthFile = `${prefix}.gt.txt`;
         // Store the preprocessed image file
-        fs.writeFileSync(preprocessedImageFile, buf.toString());
-        // Read and parse the JSON file
-        var x9;
+        fs.writeFileSync(preprocessedImageFile, buf);
         var gt: string;
         const correctX9 = this.getCheckEvalData().correctX9;
         if (correctX9 && id in correctX9) {
             // if training on the test set, we could correct the x9
             gt = correctX9[id] || "";
         } else {
-            buf = fs.readFileSync(jsonFile);
-            x9 = JSON.parse(buf.toString());
-            // Create the various fields and concatenate them
-            const route = x9.payorBankRoutingNumber + x9.payorBankCheckDigit;
-            const onUs = x9.onUs.replace('/', 'U');
-            const auxOnUs = x9.auxiliaryOnUs;
-            gt = auxOnUs ? `U${auxOnUs}U ` : "";
-            gt = gt + `T${route}T${onUs}`;
+            gt = Micr.fromX9(x9);
         }
         // Write the string to the ground truth file
         buf = Buffer.from(gt, 'utf8');
         fs.writeFileSync(groundTruthFile, buf.toString());
-        console.log(`Generated ground truth for check ${id} and stored in directory ${dir}`);
-        ctx.info(`Generated ground truth for check ${id} and stored in directory ${dir}`);
+        cliCtx().info(`Generated ground truth for check ${id} and stored in directory ${dir}`);
     }
 
     private async writeDebugImages(title: string, images: ocr.NamedImageInfo[], dir: string) {
@@ -424,7 +696,7 @@ export class CheckMgr {
         htmlContents += "\n    </body>\n</html>";
         const htmlPath = path.join(dir, `${title}.html`);
         fs.writeFileSync(htmlPath, htmlContents);
-        ctx.debug(`Debug images are available at ${htmlPath}`)
+        cliCtx().debug(`Debug images are available at ${htmlPath}`)
     }
 
     public async writeDebugPage(title: string, checkNums: string[], dir: string) {
@@ -442,27 +714,30 @@ export class CheckMgr {
         htmlContents += "    </ul>\n    </body>\n</html>";
         const htmlPath = path.join(dir, `debugImages.html`);
         fs.writeFileSync(htmlPath, htmlContents);
-        ctx.info(`Debug images are available at ${htmlPath}`)
-    }
-
-    private async storeCorrections(id: number, csr: ocr.CheckScanResponse) {
-        const tr = csr.translators["opencv"] as ocr.CheckScanTranslatorResponse;
-        const details = tr.details;
-        if (!details) return;
-        const chars = details.chars;
-        if (!chars) return;
-        for (let i = 0; i < chars.length; i++) {
-            const char = chars[i] as ocr.TranslatorChar;
-            if (!char.corrected) continue;
-            const image = char.image as ocr.Image;
-            const numContours = char.numContours as number;
-            if (!image || !numContours) continue;
-            const value = char.getBest().value;
-            const buf = await image.toBuffer(ocr.ImageFormat.TIF);
-            const prefix = path.join(this.correctionsDir, `check-${id}-char-${i}`);
-            fs.writeFileSync(`${prefix}.tif`, Buffer.from(buf).toString());
-            fs.writeFileSync(`${prefix}.ct`, `${value}:${numContours}`);
-            ctx.debug(`Stored correction for character ${i} of check ${id}`);
+        cliCtx().info(`Debug images are available at ${htmlPath}`)
+    }
+
+    /**
+     * Store the corrected characters of each translator whose response includes the details of its characters.
+     */
+    private async storeCorrections(id: string, csr: ocr.CheckScanResponse) {
+        for (const name in csr.translators) {
+            const tr = csr.translators[name] as ocr.CheckScanTranslatorResponse;
+            const chars = tr.details?.chars;
+            if (!chars) continue;
+            for (let i = 0; i < chars.length; i++) {
+                const char = chars[i] as ocr.TranslatorChar;
+                if (!char.corrected) continue;
+                const image = char.image as ocr.Image;
+                const numContours = char.numContours as number;
+                if (!image || !numContours) continue;
+                const value = char.getBest().value;
+                const buf = await image.toBuffer(ocr.ImageFormat.TIF);
+                const prefix = path.join(this.correctionsDir, `check-${id}-${name}-char-${i}`);
+                fs.writeFileSync(`${prefix}.tif`, Buffer.from(buf));
+                fs.writeFileSync(`${prefix}.ct`, `${value}:${numContours}`);
+                cliCtx().debug(`Stored ${name} correction for character ${i} of check ${id}`);
+            }
         }
     }
 
@@ -475,37 +750,109 @@ export class CheckMgr {
         return undefined;
     }
 
-    public getCheckTiffFile(id: number): string {
+    public getCheckTiffFile(id: number | string): string {
         return `${this.checksDir}/check-${id}.tiff`;
     }
 
-    private getCheckJsonFile(id: number): string {
+    public getCheckJsonFile(id: number | string): string {
         return `${this.checksDir}/check-${id}.json`;
     }
 
     public getCheckEvalData(): CheckEvalData {
+        return CheckMgr.readCheckEvalData();
+    }
+
+    /**
+     * Read the check evaluation data file named by CHECK_EVAL_DATA, if any.
+     */
+    public static readCheckEvalData(): CheckEvalData {
         const file = process.env.CHECK_EVAL_DATA;
         if (!file) return {};
+        if (!fs.existsSync(file)) throw new ConfigError(`Check evaluation data file ${file} does not exist`);
         const buf = fs.readFileSync(file);
         try {
             return JSON.parse(buf.toString());
         } catch(e: any) {
-            Util.fatal(`Failed parsing ${file}: ${e.message}`);
-            return {};
+            throw new ConfigError(`Failed parsing ${file}: ${e.message}`);
         }
     }
 
 }
 
-class CheckComparer {
+/**
+ * The fields of a check which are compared with the ground truth.
+ */
+export interface CheckFields {
+    routingNumber?: string;
+    accountNumber?: string;
+    checkNumber?: string;
+}
+
+/**
+ * The result returned by a single translator for a check, along with the fields which did not match the ground truth.
+ */
+export interface TranslatorResult extends CheckFields {
+    micrLine?: string;
+    mismatchedFields: string[];
+}
+
+/**
+ * The outcome of comparing the scan response of a single check with its ground truth.
+ */
+export interface CheckResult {
+    id: string;
+    match: boolean;
+    // The first translator which matched the ground truth
+    translator?: string;
+    wrongInX9: boolean;
+    expected: CheckFields;
+    // The MICR line of the ground truth in the T/U/A/D notation, which is the corrected line if the X9 is wrong
+    expectedMicrLine?: string;
+    translators: {[name:string]: TranslatorResult};
+}
 
-    private matches: number[] = [];
-    private mismatches: number[] = [];
-    private wrongInX9: number[] = [];
+/**
+ * The statistics collected by a CheckComparer.
+ */
+export interface CheckStats {
+    total: number;
+    matches: number;
+    mismatches: number;
+    x9Wrong: number;
+    matchPercentage: string;
+    x9WrongPercentage: string;
+    mismatchIds: string[];
+    toEvaluate: string[];
+    toReevaluate: string[];
+    wrongInX9: string[];
+    // The checks which failed with an error rather than being compared
+    errors: number;
+    errorIds: string[];
+    // The errors which were failures to reach the REST service rather than failures to scan
+    connectionErrors: number;
+}
+
+/**
+ * A check which failed with an error rather than being compared.
+ */
+export interface CheckError {
+    id: string;
+    error: string;
+    // Set if the REST service could not be reached
+    kind?: "connection";
+}
+
+export class CheckComparer {
+
+    private matches: string[] = [];
+    private mismatches: string[] = [];
+    private wrongInX9: string[] = [];
     private correctX9: {[id:string]:string};
-    private alreadyEvaluated: number[] = [];
-    private toEvaluate: number[] = [];
-    private toReevaluate: number[] = [];
+    private alreadyEvaluated: string[] = [];
+    private toEvaluate: string[] = [];
+    private toReevaluate: string[] = [];
+    private results = new Map<string, CheckResult>();
+    private errors = new Map<string, CheckError>();
     private showMatches: boolean;
     private comparisonCount = 0;
 
@@ -516,21 +863,22 @@ class CheckComparer {
         this.correctX9 = cd.correctX9 || {};
         if (cd.mismatchesByReason) {
             for (const ids of Object.values(cd.mismatchesByReason)) {
-                for (const id of ids) this.alreadyEvaluated.push(id);
+                for (const id of ids) this.alreadyEvaluated.push(id.toString());
             }
         }
     }
 
-    public compare(id: number, x9: X9, csr: ocr.CheckScanResponse, ctx: ocr.Context): boolean {
-        const idStr = id.toString();
+    public compare(id: string, x9: X9, csr: ocr.CheckScanResponse, ctx: ocr.Context): boolean {
         var ci: ocr.CheckInfo;
-        if (idStr in this.correctX9) {
-            ci = ocr.CheckUtil.micrToCheckInfo(id.toString(),ctx,this.correctX9[idStr]);
+        if (id in this.correctX9) {
+            ci = ocr.CheckUtil.micrToCheckInfo(id,ctx,this.correctX9[id]);
         } else {
             ci = ocr.CheckUtil.x9ToCheckInfo(x9,ctx);
         }
 
         let match = false;
+        let translator: string | undefined;
+        const translators: {[name:string]: TranslatorResult} = {};
         for (const trName in csr.translators) {
            const tr = csr.translators[trName] as ocr.CheckScanTranslatorResponse;
            const r = tr.result;
@@ -538,46 +886,137 @@ class CheckComparer {
            if (ci.routingNumber !== r.routingNumber) mismatchedFields.push("routingNumber");
            if (ci.accountNumber !== r.accountNumber) mismatchedFields.push("accountNumber");
            if (ci.checkNumber !== r.checkNumber) mismatchedFields.push("checkNumber");
+           translators[trName] = {
+               micrLine: r.micrLine,
+               routingNumber: r.routingNumber,
+               accountNumber: r.accountNumber,
+               checkNumber: r.checkNumber,
+               mismatchedFields,
+           };
            if (mismatchedFields.length === 0) {
-              ctx.debug(`${trName} matched check ${id}`);
+              if (!match) ctx.debug(`${trName} matched check ${id}`);
+              translator = translator || trName;
               match = true;
-              break;
+              continue;
            }
            ctx.debug(`${trName} mismatched fields ${JSON.stringify(mismatchedFields)} of check ${id}`);
         }
         if (!match) {
             ctx.debug(`mismatched check ${id}`);
         }
+        this.record({
+            id,
+            match,
+            translator,
+            wrongInX9: false,
+            expected: { routingNumber: ci.routingNumber, accountNumber: ci.accountNumber, checkNumber: ci.checkNumber },
+            expectedMicrLine: id in this.correctX9 ? this.correctX9[id] : Micr.fromX9(x9),
+            translators,
+        }, ctx);
+        ctx.info(`Check ${id}: match=${match} (${this.getMatchPercentage()})`);
+        return match;
+    }
+
+    /**
+     * Restore the result of a comparison made by a previous run, such as one being resumed from a journal.
+     */
+    public restore(result: CheckResult) {
+        this.record(result);
+    }
+
+    /**
+     * Record that a check failed with an error.  Errors are counted separately from matches and mismatches,
+     * and connection errors are also counted separately from other errors.  A check which fails after it was
+     * compared, such as when writing its ground truth, is no longer counted as a match or mismatch.
+     */
+    public recordError(id: string, error: string, kind?: "connection") {
+        if (this.results.has(id)) this.forget(id);
+        this.errors.set(id, kind ? { id, error, kind } : { id, error });
+        cliCtx().warn(`Check ${id}: ${kind ? `${kind} ` : ""}error=${error}`);
+    }
+
+    public getErrors(): CheckError[] {
+        return [...this.errors.values()].sort((a,b) => Util.compareIds(a.id, b.id));
+    }
+
+    public getResult(id: string): CheckResult | undefined {
+        return this.results.get(id);
+    }
+
+    /**
+     * Categorize and store the result of a comparison, logging to the context if one is given.
+     */
+    private record(result: CheckResult, ctx?: ocr.Context) {
+        const id = result.id;
+        if (this.results.has(id)) this.forget(id);
+        const match = result.match;
         const wrong = id in this.correctX9;
         const evaluated = this.alreadyEvaluated.indexOf(id) >= 0;
         if (wrong) {
             this.wrongInX9.push(id);
         } else if (!match && !evaluated) {
-            ctx.info(`Evaluate check ${id}`);
+            if (ctx) ctx.info(`Evaluate check ${id}`);
             this.toEvaluate.push(id);
         } else if (match && evaluated) {
-            ctx.info(`Reevaluate check ${id}`);
+            if (ctx) ctx.info(`Reevaluate check ${id}`);
             this.toReevaluate.push(id);
         }
         if (match) this.matches.push(id);
         else this.mismatches.push(id);
-        ctx.info(`Check ${id}: match=${match} (${this.getMatchPercentage()})`);
+        result.wrongInX9 = wrong;
+        this.results.set(id, result);
+        this.errors.delete(id);
         this.comparisonCount++;
-        return match;
     }
 
     public logStats() {
-        if (this.comparisonCount === 0) return;
-        this.matches.sort((a,b) => a - b);
-        this.mismatches.sort((a,b) => a - b);
-        this.toEvaluate.sort((a,b) => a - b);
-        this.toReevaluate.sort((a,b) => a - b);
-        if (this.showMatches) ctx.info(`Matches: ${JSON.stringify(this.matches)}`);
-        ctx.info(`Mismatches: ${JSON.stringify(this.mismatches)}`);
-        ctx.info(`Mismatches to evaluate: ${JSON.stringify(this.toEvaluate)}`);
-        ctx.info(`Matches to reevaluate: ${JSON.stringify(this.toReevaluate)}`);
-        ctx.info(`Counts: match=${this.matches.length}, x9Wrong=${this.wrongInX9.length}, total=${this.total()}`);
-        ctx.info(`Percentage: match=${this.getMatchPercentage()}, x9Wrong=${this.getX9WrongPercentage()}`);
+        if (this.comparisonCount === 0 && this.errors.size === 0) return;
+        this.sort();
+        if (this.showMatches) cliCtx().info(`Matches: ${JSON.stringify(this.matches)}`);
+        cliCtx().info(`Mismatches: ${JSON.stringify(this.mismatches)}`);
+        cliCtx().info(`Mismatches to evaluate: ${JSON.stringify(this.toEvaluate)}`);
+        cliCtx().info(`Matches to reevaluate: ${JSON.stringify(this.toReevaluate)}`);
+        if (this.errors.size > 0) cliCtx().info(`Errors: ${JSON.stringify(this.getErrors().map(e => e.id))}`);
+        cliCtx().info(`Counts: match=${this.matches.length}, x9Wrong=${this.wrongInX9.length}, errors=${this.errors.size}, connectionErrors=${this.connectionErrors()}, total=${this.total()}`);
+        cliCtx().info(`Percentage: match=${this.getMatchPercentage()}, x9Wrong=${this.getX9WrongPercentage()}`);
+    }
+
+    public getStats(): CheckStats {
+        this.sort();
+        return {
+            total: this.total(),
+            matches: this.matches.length,
+            mismatches: this.mismatches.length,
+            x9Wrong: this.wrongInX9.length,
+            matchPercentage: this.getMatchPercentage(),
+            x9WrongPercentage: this.getX9WrongPercentage(),
+            mismatchIds: [...this.mismatches],
+            toEvaluate: [...this.toEvaluate],
+            toReevaluate: [...this.toReevaluate],
+            wrongInX9: [...this.wrongInX9],
+            errors: this.errors.size,
+            errorIds: this.getErrors().map(e => e.id),
+            connectionErrors: this.connectionErrors(),
+        };
+    }
+
+    private connectionErrors(): number {
+        return [...this.errors.values()].filter(e => e.kind === "connection").length;
+    }
+
+    /**
+     * Return the result of each comparison, ordered by check id.
+     */
+    public getResults(): CheckResult[] {
+        return [...this.results.values()].sort((a,b) => Util.compareIds(a.id, b.id));
+    }
+
+    /**
+     * Return the percentage of the compared checks which matched, or 0 if none were compared.
+     */
+    public getMatchRate(): number {
+        const total = this.total();
+        return total > 0 ? (this.matches.length * 100) / total : 0;
     }
 
     public getMatchPercentage(): string {
@@ -592,4 +1031,24 @@ class CheckComparer {
         return this.matches.length + this.mismatches.length;
     }
 
+    /**
+     * Remove a previously recorded result, such as when a check is retried or fails after it was compared.
+     */
+    private forget(id: string) {
+        for (const list of [this.matches, this.mismatches, this.wrongInX9, this.toEvaluate, this.toReevaluate]) {
+            const idx = list.indexOf(id);
+            if (idx >= 0) list.splice(idx, 1);
+        }
+        this.results.delete(id);
+        this.comparisonCount--;
+    }
+
+    private sort() {
+        this.matches.sort(Util.compareIds);
+        this.mismatches.sort(Util.compareIds);
+        this.toEvaluate.sort(Util.compareIds);
+        this.toReevaluate.sort(Util.compareIds);
+        this.wrongInX9.sort(Util.compareIds);
+    }
+
 }
@@ -0,0 +1,200 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import { CheckResult, TranslatorResult } from './check.js';
+import { CheckGenerator } from './generator.js';
+import { UsageError } from './options.js';
+import { FIELDS, Regression } from './regression.js';
+
+/**
+ * A decision policy which picks the result of a check from the results of its translators, as production
+ * must without knowing the ground truth:
+ * - "single" takes the result of one translator;
+ * - "agree" takes the result only if every translator read the same fields;
+ * - "fallback" takes the result of the first translator, in order, whose result is plausible, meaning its
+ *   routing number passes the ABA checksum and it has an account number.
+ * A check for which a policy takes no result is undecided, as it would be sent for manual review.
+ */
+export interface ScoringPolicy {
+    name: string;
+    kind: "single" | "agree" | "fallback";
+    translators: string[];
+}
+
+/**
+ * The outcome of a policy over the checks, with rates as percentages of all checks.
+ */
+export interface PolicyScore {
+    policy: string;
+    correct: number;
+    wrong: number;
+    undecided: number;
+    // The percentage of checks with a correct result, which is the accuracy that would be shipped
+    accuracy: number;
+    errorRate: number;
+    undecidedRate: number;
+}
+
+export interface RateCount {
+    checks: number;
+    rate: number;
+}
+
+export interface ConsensusStats {
+    total: number;
+    translators: string[];
+    // The percentage of checks which any translator read correctly, which is the optimistic oracle accuracy
+    oracle: number;
+    policies: PolicyScore[];
+    // The checks on which the translators did not all read the same fields
+    disagreement: RateCount;
+    // The disagreements of each pair of translators, such as "opencv/tesseract"
+    disagreementByPair: {[pair:string]: RateCount};
+    disagreementByField: {[field:string]: RateCount};
+    // The checks on which the translators agreed but were wrong, as a percentage of all checks and of the
+    // checks on which they agreed
+    agreeButWrong: RateCount & { rateOfAgreed: number };
+}
+
+export class Consensus {
+
+    /**
+     * Parse a comma-separated list of policies: a translator name, "agree", "fallback" for the translators
+     * in the order given, or "fallback:<translator>><translator>..." for another order.
+     */
+    public static parsePolicies(spec: string, translators: string[]): ScoringPolicy[] {
+        const check = (name: string) => {
+            if (translators.indexOf(name) < 0) throw new UsageError(`Unknown translator '${name}' in --scoring; expecting one of ${translators.join(", ")}`);
+        };
+        return spec.split(",").map(s => s.trim()).filter(s => s.length > 0).map((name): ScoringPolicy => {
+            if (name === "agree") return { name, kind: "agree", translators };
+            if (name === "fallback") return { name, kind: "fallback", translators };
+            if (name.startsWith("fallback:")) {
+                const order = name.substring("fallback:".length).split(">");
+                order.forEach(check);
+                return { name, kind: "fallback", translators: order };
+            }
+            check(name);
+            return { name, kind: "single", translators: [name] };
+        });
+    }
+
+    public static score(results: CheckResult[], policies: ScoringPolicy[]): ConsensusStats {
+        const total = results.length;
+        const translators = Consensus.translators(results);
+        const pct = (n: number) => total > 0 ? (n * 100) / total : 0;
+        const rate = (checks: number): RateCount => ({ checks, rate: pct(checks) });
+
+        const scores = policies.map(policy => {
+            let correct = 0, wrong = 0, undecided = 0;
+            for (const r of results) {
+                const tr = Consensus.decide(r, policy);
+                if (!tr) undecided++;
+                else if (Regression.fieldsMatch(tr)) correct++;
+                else wrong++;
+            }
+            return { policy: policy.name, correct, wrong, undecided, accuracy: pct(correct), errorRate: pct(wrong), undecidedRate: pct(undecided) };
+        });
+
+        let disagreed = 0, agreed = 0, agreedWrong = 0;
+        const byPair: {[pair:string]: number} = {};
+        const byField: {[field:string]: number} = {};
+        for (const r of results) {
+            const trs = translators.map(name => r.translators[name]);
+            if (Consensus.agree(trs)) {
+                agreed++;
+                if (!Regression.fieldsMatch(trs[0])) agreedWrong++;
+            } else {
+                disagreed++;
+            }
+            for (let i = 0; i < translators.length; i++) {
+                for (let j = i + 1; j < translators.length; j++) {
+                    const pair = `${translators[i]}/${translators[j]}`;
+                    if (!Consensus.agree([trs[i], trs[j]])) byPair[pair] = (byPair[pair] || 0) + 1;
+                }
+            }
+            for (const field of FIELDS) {
+                if (!Consensus.agree(trs, field)) byField[field] = (byField[field] || 0) + 1;
+            }
+        }
+        const disagreementByPair: {[pair:string]: RateCount} = {};
+        for (let i = 0; i < translators.length; i++) {
+            for (let j = i + 1; j < translators.length; j++) {
+                const pair = `${translators[i]}/${translators[j]}`;
+                disagreementByPair[pair] = rate(byPair[pair] || 0);
+            }
+        }
+        const disagreementByField: {[field:string]: RateCount} = {};
+        for (const field of FIELDS) disagreementByField[field] = rate(byField[field] || 0);
+        return {
+            total,
+            translators,
+            oracle: pct(results.filter(r => r.match).length),
+            policies: scores,
+            disagreement: rate(disagreed),
+            disagreementByPair,
+            disagreementByField,
+            agreeButWrong: { ...rate(agreedWrong), rateOfAgreed: agreed > 0 ? (agreedWrong * 100) / agreed : 0 },
+        };
+    }
+
+    /**
+     * Format the consensus statistics as human-readable lines.
+     */
+    public static format(stats: ConsensusStats): string[] {
+        const pct = (n: number) => `${n.toFixed(2)}%`;
+        const lines: string[] = [];
+        lines.push(`Consensus over ${stats.total} checks; any translator (oracle): ${pct(stats.oracle)}`);
+        for (const p of stats.policies) {
+            lines.push(`Policy ${p.policy}: accuracy=${pct(p.accuracy)}, wrong=${pct(p.errorRate)}, undecided=${pct(p.undecidedRate)} (correct=${p.correct}, wrong=${p.wrong}, undecided=${p.undecided})`);
+        }
+        if (stats.translators.length > 1) {
+            lines.push(`Translators disagree: ${pct(stats.disagreement.rate)} (${stats.disagreement.checks})`);
+            for (const [pair, d] of Object.entries(stats.disagreementByPair)) lines.push(`    pair ${pair}: ${pct(d.rate)} (${d.checks})`);
+            for (const [field, d] of Object.entries(stats.disagreementByField)) lines.push(`    field ${field}: ${pct(d.rate)} (${d.checks})`);
+            const abw = stats.agreeButWrong;
+            lines.push(`Translators agree but are wrong: ${pct(abw.rate)} (${abw.checks}), ${pct(abw.rateOfAgreed)} of the checks on which they agree`);
+        }
+        return lines;
+    }
+
+    /**
+     * Return the translator result taken by a policy, if any.
+     */
+    private static decide(r: CheckResult, policy: ScoringPolicy): TranslatorResult | undefined {
+        const trs = policy.translators.map(name => r.translators[name]);
+        switch (policy.kind) {
+            case "single":
+                return trs[0];
+            case "agree":
+                return Consensus.agree(trs) ? trs[0] : undefined;
+            case "fallback":
+                return trs.find(tr => tr && Consensus.plausible(tr));
+        }
+    }
+
+    /**
+     * Return true if every translator has a result with the same fields, or the same value of one field.  A
+     * translator without a result disagrees.
+     */
+    private static agree(trs: (TranslatorResult | undefined)[], field?: string): boolean {
+        const first = trs[0];
+        if (!first) return false;
+        const fields = field ? [field] : FIELDS;
+        const value = (tr: TranslatorResult, f: string) => (tr as unknown as {[name:string]: string | undefined})[f];
+        return trs.every(tr => tr !== undefined && fields.every(f => value(tr, f) === value(first, f)));
+    }
+
+    private static plausible(tr: TranslatorResult): boolean {
+        return !!tr.routingNumber && CheckGenerator.isValidRoutingNumber(tr.routingNumber) && !!tr.accountNumber;
+    }
+
+    private static translators(results: CheckResult[]): string[] {
+        const names = new Set<string>();
+        for (const r of results) {
+            for (const tr in r.translators) names.add(tr);
+        }
+        return [...names].sort();
+    }
+
+}
@@ -0,0 +1,305 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Prompter } from './prompt.js';
+
+/**
+ * A corrected character stored by a scan with ACTUAL set: a "<name>.tif" image of the character and a
+ * "<name>.ct" file containing "<value>:<number of contours>".
+ */
+export interface CorrectionSample {
+    // The file name without its extension, such as "check-12-opencv-char-3"
+    name: string;
+    file: string;
+    value: string;
+    contours: number;
+    sha256: string;
+    size: number;
+    rejected: boolean;
+    // The name of the first sample with the same image, if this sample is a duplicate of it
+    duplicateOf?: string;
+    // The names of the other samples with the same image but another value, which must be reviewed since
+    // at most one value is right
+    conflictsWith?: string[];
+}
+
+/**
+ * The samples of a character value with a number of contours.
+ */
+export interface CorrectionGroup {
+    value: string;
+    contours: number;
+    samples: number;
+    // The samples which are neither duplicates, conflicts nor rejected
+    unique: number;
+    duplicates: number;
+    conflicts: number;
+    rejected: number;
+}
+
+/**
+ * The corrected characters in the corrections directory.  Rejected samples are moved to its "rejected"
+ * subdirectory, so that only the samples which are kept remain in the directory.
+ */
+export class CorrectionSet {
+
+    public static readonly REJECTED_DIR = "rejected";
+    public static readonly LABELS_FILE = "labels.csv";
+
+    private dir: string;
+    private samples: CorrectionSample[];
+
+    public static open(dir?: string): CorrectionSet {
+        return new CorrectionSet(dir || process.env.CORRECTIONS_DIR || path.join("files", "corrections"));
+    }
+
+    private constructor(dir: string) {
+        this.dir = dir;
+        this.samples = [
+            ...this.read(dir, false),
+            ...this.read(path.join(dir, CorrectionSet.REJECTED_DIR), true),
+        ].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+        this.markDuplicates();
+    }
+
+    public getDir(): string {
+        return this.dir;
+    }
+
+    public list(): CorrectionSample[] {
+        return this.samples;
+    }
+
+    /**
+     * Return the samples grouped by value and number of contours, ordered by value.
+     */
+    public groups(): CorrectionGroup[] {
+        const groups = new Map<string, CorrectionGroup>();
+        for (const s of this.samples) {
+            const key = `${s.value}:${s.contours}`;
+            const group = groups.get(key) || { value: s.value, contours: s.contours, samples: 0, unique: 0, duplicates: 0, conflicts: 0, rejected: 0 };
+            group.samples++;
+            if (s.rejected) group.rejected++;
+            else if (s.conflictsWith) group.conflicts++;
+            else if (s.duplicateOf) group.duplicates++;
+            else group.unique++;
+            groups.set(key, group);
+        }
+        return [...groups.values()].sort((a, b) => a.value.localeCompare(b.value) || a.contours - b.contours);
+    }
+
+    /**
+     * Return the samples of a group given as "<value>" or "<value>:<contours>", or all samples if no group is given.
+     */
+    public select(group?: string): CorrectionSample[] {
+        if (group === undefined) return this.samples;
+        const m = group.match(/^(.+):(\d+)$/);
+        const value = m ? m[1] as string : group;
+        const contours = m ? parseInt(m[2] as string) : undefined;
+        return this.samples.filter(s => s.value === value && (contours === undefined || s.contours === contours));
+    }
+
+    public get(name: string): CorrectionSample | undefined {
+        return this.samples.find(s => s.name === name);
+    }
+
+    /**
+     * Move a sample to the rejected directory.
+     */
+    public reject(sample: CorrectionSample) {
+        if (sample.rejected) return;
+        this.move(sample, path.join(this.dir, CorrectionSet.REJECTED_DIR));
+        sample.rejected = true;
+        this.markDuplicates();
+    }
+
+    /**
+     * Move a rejected sample back to the corrections directory.
+     */
+    public restore(sample: CorrectionSample) {
+        if (!sample.rejected) return;
+        this.move(sample, this.dir);
+        sample.rejected = false;
+        this.markDuplicates();
+    }
+
+    /**
+     * Return the samples which conflict with another sample.
+     */
+    public conflicts(): CorrectionSample[] {
+        return this.samples.filter(s => s.conflictsWith);
+    }
+
+    /**
+     * Delete the duplicate and/or rejected samples.  Conflicting samples are not duplicates until the samples
+     * with the wrong value are rejected.
+     * @returns The samples which were deleted, or which would be deleted if dryRun is set
+     */
+    public prune(opts: { duplicates: boolean, rejected: boolean, dryRun?: boolean }): CorrectionSample[] {
+        const pruned = this.samples.filter(s => (opts.rejected && s.rejected) || (opts.duplicates && !s.rejected && s.duplicateOf));
+        if (opts.dryRun) return pruned;
+        for (const s of pruned) {
+            fs.rmSync(s.file, { force: true });
+            fs.rmSync(CorrectionSet.labelFile(s.file), { force: true });
+        }
+        this.samples = this.samples.filter(s => pruned.indexOf(s) < 0);
+        return pruned;
+    }
+
+    /**
+     * Copy the samples which are neither duplicates, conflicts nor rejected to a directory in the layout of the
+     * corrections directory, along with a CSV file of their labels.
+     * @returns The exported samples
+     */
+    public export(dir: string): CorrectionSample[] {
+        if (fs.existsSync(dir) && fs.readdirSync(dir).length > 0) throw new Error(`${dir} is not empty`);
+        fs.mkdirSync(dir, { recursive: true });
+        const samples = this.samples.filter(s => !s.rejected && !s.duplicateOf && !s.conflictsWith);
+        const labels = ["file,value,contours,sha256"];
+        for (const s of samples) {
+            fs.copyFileSync(s.file, path.join(dir, `${s.name}.tif`));
+            fs.copyFileSync(CorrectionSet.labelFile(s.file), path.join(dir, `${s.name}.ct`));
+            labels.push([`${s.name}.tif`, csv(s.value), s.contours, s.sha256].join(","));
+        }
+        fs.writeFileSync(path.join(dir, CorrectionSet.LABELS_FILE), labels.join("\n") + "\n");
+        return samples;
+    }
+
+    private read(dir: string, rejected: boolean): CorrectionSample[] {
+        if (!fs.existsSync(dir)) return [];
+        const samples: CorrectionSample[] = [];
+        for (const entry of fs.readdirSync(dir)) {
+            if (!entry.endsWith(".ct")) continue;
+            const name = entry.substring(0, entry.length - 3);
+            const file = path.join(dir, `${name}.tif`);
+            if (!fs.existsSync(file)) continue;
+            const label = fs.readFileSync(path.join(dir, entry)).toString().trim();
+            const sep = label.lastIndexOf(":");
+            const image = fs.readFileSync(file);
+            samples.push({
+                name,
+                file,
+                value: label.substring(0, sep),
+                contours: parseInt(label.substring(sep + 1)),
+                sha256: crypto.createHash("sha256").update(image).digest("hex"),
+                size: image.length,
+                rejected,
+            });
+        }
+        return samples;
+    }
+
+    /**
+     * Mark each sample which is not rejected and has the same image as an earlier sample which is not rejected.
+     * If the samples with the same image do not all have the same value, each is marked as a conflict instead.
+     */
+    private markDuplicates() {
+        const byImage = new Map<string, CorrectionSample[]>();
+        for (const s of this.samples) {
+            delete s.duplicateOf;
+            delete s.conflictsWith;
+            if (s.rejected) continue;
+            const same = byImage.get(s.sha256);
+            if (same) same.push(s);
+            else byImage.set(s.sha256, [s]);
+        }
+        for (const same of byImage.values()) {
+            const first = same[0] as CorrectionSample;
+            if (same.every(s => s.value === first.value)) {
+                for (const s of same.slice(1)) s.duplicateOf = first.name;
+            } else {
+                for (const s of same) s.conflictsWith = same.filter(o => o.value !== s.value).map(o => o.name);
+            }
+        }
+    }
+
+    private move(sample: CorrectionSample, dir: string) {
+        fs.mkdirSync(dir, { recursive: true });
+        const file = path.join(dir, `${sample.name}.tif`);
+        fs.renameSync(sample.file, file);
+        fs.renameSync(CorrectionSet.labelFile(sample.file), CorrectionSet.labelFile(file));
+        sample.file = file;
+    }
+
+    private static labelFile(file: string): string {
+        return file.replace(/\.tif$/, ".ct");
+    }
+
+}
+
+/**
+ * The counts of the actions taken by a review session.
+ */
+export interface ReviewSummary {
+    kept: number;
+    rejected: number;
+    skipped: number;
+}
+
+/**
+ * An interactive walk through samples of the correction set, in which each is kept or rejected.
+ */
+export class CorrectionReview {
+
+    private set: CorrectionSet;
+    private prompter = new Prompter();
+
+    constructor(set: CorrectionSet) {
+        this.set = set;
+    }
+
+    public async run(samples: CorrectionSample[]): Promise<ReviewSummary> {
+        const summary: ReviewSummary = { kept: 0, rejected: 0, skipped: 0 };
+        try {
+            for (let i = 0; i < samples.length; i++) {
+                const s = samples[i] as CorrectionSample;
+                console.log("");
+                console.log(`[${i + 1}/${samples.length}] ${s.name}: value '${s.value}' with ${s.contours} contours${s.rejected ? "; rejected" : ""}`);
+                console.log(`  image: ${s.file}`);
+                if (s.conflictsWith) {
+                    const others = s.conflictsWith.map(name => `${name} ('${this.set.get(name)?.value}')`);
+                    console.log(`  same image as ${others.join(", ")} with another value`);
+                } else if (s.duplicateOf) {
+                    console.log(`  duplicate of ${s.duplicateOf}`);
+                }
+                const action = await this.decide(s);
+                if (action === "quit") {
+                    summary.skipped += samples.length - i;
+                    break;
+                }
+                summary[action]++;
+            }
+        } finally {
+            this.prompter.close();
+        }
+        return summary;
+    }
+
+    /**
+     * Ask what to do with a sample until a valid answer is given, and apply it.
+     */
+    private async decide(s: CorrectionSample): Promise<keyof ReviewSummary | "quit"> {
+        for (;;) {
+            const answer = await this.prompter.ask("[k] keep, [r] reject, [s] skip, [q] quit: ");
+            if (answer === undefined || answer === "q") return "quit";
+            if (answer === "" || answer === "s") return "skipped";
+            if (answer === "k") {
+                this.set.restore(s);
+                return "kept";
+            }
+            if (answer === "r") {
+                this.set.reject(s);
+                return "rejected";
+            }
+            console.log(`Invalid answer '${answer}'`);
+        }
+    }
+
+}
+
+function csv(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
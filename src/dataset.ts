@@ -0,0 +1,147 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckEvalData, X9 } from './check.js';
+import { Util } from './util.js';
+
+/**
+ * A check to be processed.  If the image is not given, it is found in the checks directory by id.
+ * The ground truth is either given inline, given as the path to a JSON file, or else found in the JSON
+ * file with the same prefix as the image.
+ */
+export interface CheckEntry {
+    id: string;
+    image?: string;
+    groundTruth?: X9 | string;
+}
+
+/**
+ * The filters which select a subset of the checks in a dataset.
+ */
+export interface DatasetFilter {
+    // Only the checks with these ids
+    ids?: string[];
+    // Only the checks listed under this reason in CHECK_EVAL_DATA
+    reason?: string;
+    checkEvalData?: CheckEvalData;
+    // A random sample of this number of checks
+    sample?: number;
+    seed?: number;
+}
+
+const X9_FIELDS = ["payorBankRoutingNumber", "payorBankCheckDigit", "onUs", "auxiliaryOnUs"];
+
+/**
+ * An ordered set of checks, either a numeric range of checks in the checks directory or the checks listed in a manifest.
+ */
+export class Dataset {
+
+    public readonly entries: CheckEntry[];
+
+    constructor(entries: CheckEntry[]) {
+        this.entries = entries;
+    }
+
+    /**
+     * Checks check-<start> through check-<start+count-1> in the checks directory.
+     */
+    public static fromRange(start: number, count: number): Dataset {
+        const entries: CheckEntry[] = [];
+        for (let id = start; id < start + count; id++) entries.push({ id: id.toString() });
+        return new Dataset(entries);
+    }
+
+    public static fromIds(ids: string[]): Dataset {
+        return new Dataset(ids.map(id => ({ id })));
+    }
+
+    /**
+     * Read a CSV or JSONL manifest.  Each CSV row or JSON object has an "id", an "image" path, and either a
+     * "groundTruth" path to a JSON file or the X9 fields themselves.  Relative paths are relative to the manifest.
+     */
+    public static fromManifest(file: string): Dataset {
+        const dir = path.dirname(file);
+        const lines = fs.readFileSync(file).toString().split(/\r?\n/);
+        const records: {[name:string]:any}[] = [];
+        if (file.toLowerCase().endsWith(".csv")) {
+            const header = Util.parseCsvLine(lines.shift() || "").map(h => h.trim());
+            for (const line of lines) {
+                if (!line.trim()) continue;
+                const fields = Util.parseCsvLine(line);
+                const record: {[name:string]:string} = {};
+                header.forEach((name, i) => record[name] = (fields[i] || "").trim());
+                records.push(record);
+            }
+        } else {
+            lines.forEach((line, i) => {
+                if (!line.trim()) return;
+                try {
+                    records.push(JSON.parse(line));
+                } catch (e: any) {
+                    throw new Error(`Failed parsing line ${i + 1} of manifest ${file}: ${e.message}`);
+                }
+            });
+        }
+        const entries: CheckEntry[] = [];
+        const seen = new Set<string>();
+        records.forEach((r, i) => {
+            const id = r.id !== undefined ? String(r.id) : "";
+            if (!id) throw new Error(`Missing id in entry ${i + 1} of manifest ${file}`);
+            if (!r.image) throw new Error(`Missing image for check ${id} in manifest ${file}`);
+            if (seen.has(id)) throw new Error(`Duplicate id ${id} in manifest ${file}`);
+            seen.add(id);
+            const entry: CheckEntry = { id, image: path.resolve(dir, r.image) };
+            if (typeof r.groundTruth === "string" && r.groundTruth) {
+                entry.groundTruth = path.resolve(dir, r.groundTruth);
+            } else if (r.groundTruth && typeof r.groundTruth === "object") {
+                entry.groundTruth = r.groundTruth;
+            } else if (r.payorBankRoutingNumber) {
+                const x9: {[name:string]:string} = {};
+                for (const name of X9_FIELDS) x9[name] = r[name] !== undefined ? String(r[name]) : "";
+                entry.groundTruth = x9 as unknown as X9;
+            }
+            entries.push(entry);
+        });
+        return new Dataset(entries);
+    }
+
+    /**
+     * Return the subset of this dataset which passes the filter, preserving the order of the entries.
+     */
+    public filter(filter: DatasetFilter): Dataset {
+        let entries = this.entries;
+        if (filter.ids) {
+            const ids = new Set(filter.ids);
+            entries = entries.filter(e => ids.has(e.id));
+        }
+        if (filter.reason) {
+            const byReason = (filter.checkEvalData || {}).mismatchesByReason || {};
+            const reasonIds = byReason[filter.reason];
+            if (!reasonIds) throw new Error(`Reason '${filter.reason}' was not found in the check evaluation data`);
+            const ids = new Set(reasonIds.map(id => id.toString()));
+            entries = entries.filter(e => ids.has(e.id));
+        }
+        if (filter.sample !== undefined && filter.sample < entries.length) {
+            const random = Util.seededRandom(filter.seed ?? Date.now());
+            const indexes = entries.map((_, i) => i);
+            for (let i = indexes.length - 1; i > 0; i--) {
+                const j = Math.floor(random() * (i + 1));
+                [indexes[i], indexes[j]] = [indexes[j] as number, indexes[i] as number];
+            }
+            const chosen = new Set(indexes.slice(0, filter.sample));
+            entries = entries.filter((_, i) => chosen.has(i));
+        }
+        return new Dataset(entries);
+    }
+
+    public get(id: string): CheckEntry | undefined {
+        return this.entries.find(e => e.id === id);
+    }
+
+    public size(): number {
+        return this.entries.length;
+    }
+
+}
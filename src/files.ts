@@ -0,0 +1,109 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The extensions of the image files which can be scanned.
+ */
+export const IMAGE_EXTS = [".tif", ".tiff", ".jpg", ".jpeg", ".png", ".gif", ".bmp"];
+
+/**
+ * Finds the image files to be scanned from paths, directories, glob patterns and lists of files.
+ */
+export class ImageFiles {
+
+    /**
+     * Expand each argument into image files.  A file is returned as is, a directory is searched recursively for
+     * images, and a glob pattern containing "*", "?" or "**" is matched against the images below its base directory.
+     */
+    public static expand(args: string[]): string[] {
+        const files: string[] = [];
+        for (const arg of args) {
+            if (ImageFiles.isGlob(arg)) {
+                const matched = ImageFiles.glob(arg).filter(f => ImageFiles.isImage(f));
+                if (matched.length === 0) throw new Error(`No files match ${arg}`);
+                files.push(...matched);
+            } else if (!fs.existsSync(arg)) {
+                throw new Error(`File ${arg} does not exist`);
+            } else if (fs.statSync(arg).isDirectory()) {
+                files.push(...ImageFiles.walk(arg).filter(f => ImageFiles.isImage(f)));
+            } else {
+                files.push(arg);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Read a list of files, one per line.  Blank lines and lines beginning with "#" are ignored, and relative
+     * paths are relative to the current directory.
+     */
+    public static fromList(listFile: string): string[] {
+        const text = listFile === "-" ? fs.readFileSync(0).toString() : fs.readFileSync(listFile).toString();
+        return text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0 && !l.startsWith("#"));
+    }
+
+    public static isImage(file: string): boolean {
+        return IMAGE_EXTS.indexOf(path.extname(file).toLowerCase()) >= 0;
+    }
+
+    public static isGlob(arg: string): boolean {
+        return /[*?]/.test(arg);
+    }
+
+    /**
+     * Return the image files below a directory, ordered by name within each directory.  Symbolic links are
+     * followed, but a directory already visited is not walked again, so a link cycle ends the walk there.
+     */
+    private static walk(dir: string, visited = new Set<string>()): string[] {
+        const files: string[] = [];
+        visited.add(fs.realpathSync(dir));
+        const names = fs.readdirSync(dir).sort();
+        for (const name of names) {
+            const file = path.join(dir, name);
+            const stat = fs.statSync(file);
+            if (stat.isDirectory() && !visited.has(fs.realpathSync(file))) files.push(...ImageFiles.walk(file, visited));
+            else if (stat.isFile()) files.push(file);
+        }
+        return files;
+    }
+
+    private static glob(pattern: string): string[] {
+        const parts = pattern.split(/[\\/]/);
+        const firstGlob = parts.findIndex(p => ImageFiles.isGlob(p));
+        const base = parts.slice(0, firstGlob).join(path.sep) || (pattern.startsWith("/") ? "/" : ".");
+        if (!fs.existsSync(base)) return [];
+        const regex = ImageFiles.globToRegex(parts.slice(firstGlob).join("/"));
+        return ImageFiles.walk(base).filter(f => regex.test(path.relative(base, f).split(path.sep).join("/")));
+    }
+
+    /**
+     * Convert a glob pattern to a regular expression, where "**" matches any number of directories,
+     * "*" matches any characters other than "/" and "?" matches a single such character.
+     */
+    private static globToRegex(glob: string): RegExp {
+        let re = "";
+        for (let i = 0; i < glob.length; i++) {
+            const c = glob[i] as string;
+            if (c === "*" && glob[i + 1] === "*") {
+                i++;
+                if (glob[i + 1] === "/") {
+                    i++;
+                    re += "(?:.*/)?";
+                } else {
+                    re += ".*";
+                }
+            } else if (c === "*") {
+                re += "[^/]*";
+            } else if (c === "?") {
+                re += "[^/]";
+            } else {
+                re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+            }
+        }
+        return new RegExp(`^${re}$`);
+    }
+
+}
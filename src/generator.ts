@@ -0,0 +1,130 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import { X9 } from './check.js';
+import { Micr, MicrFont, MICR_FONTS } from './micr.js';
+import { Util } from './util.js';
+
+/**
+ * The formats in which generated check images may be written.
+ */
+export type GeneratedImageFormat = "png" | "jpg";
+
+export const GENERATED_IMAGE_FORMATS: GeneratedImageFormat[] = ["png", "jpg"];
+
+export interface GeneratorOpts {
+    // The seed of the random number generator, so that the same checks are generated for the same seed
+    seed: number;
+    // Put the check number in the auxiliary on-us field, as on business checks
+    auxOnUs?: boolean;
+    // Print an amount field at the end of the MICR line
+    amount?: boolean;
+    // The number of spaces between the fields of the MICR line
+    gap?: number;
+}
+
+/**
+ * The fields of a generated check.
+ */
+export interface GeneratedCheck {
+    // The 9 digit routing number including its check digit
+    routingNumber: string;
+    accountNumber: string;
+    checkNumber: string;
+    // The amount in cents, zero-padded to 10 digits
+    amount?: string;
+    // The MICR line in the T/U/A/D transcription of the ground truth files
+    transcription: string;
+    // The MICR line using the GnuMICR font glyphs: A is transit, B is amount, C is on-us and D is dash
+    micrLine: string;
+    // The ground truth in the shape of the fields extracted from an X9 file
+    x9: X9;
+}
+
+/**
+ * Generates random but realistic check fields: the routing number has a valid ABA check digit, and the
+ * X9 ground truth is consistent with the printed MICR line.
+ */
+export class CheckGenerator {
+
+    private random: () => number;
+    private opts: GeneratorOpts;
+
+    constructor(opts: GeneratorOpts) {
+        this.opts = opts;
+        this.random = Util.seededRandom(opts.seed);
+    }
+
+    public next(): GeneratedCheck {
+        const routingNumber = this.routingNumber();
+        const accountNumber = this.digits(this.int(6, 12));
+        const checkNumber = this.opts.auxOnUs ? this.digits(this.int(4, 8)) : this.digits(4);
+        const gap = " ".repeat(this.opts.gap ?? 2);
+        let transcription: string;
+        const x9: X9 = {
+            payorBankRoutingNumber: routingNumber.substring(0, 8),
+            payorBankCheckDigit: routingNumber.substring(8),
+            onUs: "",
+            auxiliaryOnUs: "",
+        };
+        if (this.opts.auxOnUs) {
+            // Business check: the check number is in the auxiliary on-us field to the left of the routing number
+            transcription = `U${checkNumber}U${gap}T${routingNumber}T${gap}${accountNumber}U`;
+            x9.auxiliaryOnUs = checkNumber;
+            x9.onUs = `${accountNumber}/`;
+        } else {
+            // Personal check: the check number follows the account number in the on-us field
+            transcription = `T${routingNumber}T${gap}${accountNumber}U${gap}${checkNumber}`;
+            x9.onUs = `${accountNumber}/${checkNumber}`;
+        }
+        const check: GeneratedCheck = { routingNumber, accountNumber, checkNumber, transcription, micrLine: "", x9 };
+        if (this.opts.amount) {
+            check.amount = this.int(100, 1000000).toString().padStart(10, "0");
+            check.transcription += `${gap}A${check.amount}A`;
+            x9.amount = check.amount;
+        }
+        check.micrLine = Micr.toGlyphs(check.transcription, MICR_FONTS.micr as MicrFont);
+        return check;
+    }
+
+    /**
+     * Return a random routing number whose first two digits are a valid Federal Reserve routing symbol and
+     * whose last digit is the ABA check digit.
+     */
+    public routingNumber(): string {
+        const prefixes = ["01", "02", "03", "04", "05", "06", "07", "08", "09", "10", "11", "12",
+                          "21", "22", "23", "24", "25", "26", "27", "28", "29", "30", "31", "32"];
+        const first8 = prefixes[this.int(0, prefixes.length - 1)] + this.digits(6);
+        return first8 + CheckGenerator.abaCheckDigit(first8);
+    }
+
+    /**
+     * Return the ABA check digit of the first 8 digits of a routing number, which makes the weighted sum
+     * of the 9 digits, with weights 3, 7 and 1 repeating, a multiple of 10.
+     */
+    public static abaCheckDigit(first8: string): string {
+        const weights = [3, 7, 1, 3, 7, 1, 3, 7];
+        let sum = 0;
+        for (let i = 0; i < 8; i++) sum += parseInt(first8.charAt(i), 10) * (weights[i] as number);
+        return ((10 - (sum % 10)) % 10).toString();
+    }
+
+    public static isValidRoutingNumber(routingNumber: string): boolean {
+        if (!/^\d{9}$/.test(routingNumber)) return false;
+        return CheckGenerator.abaCheckDigit(routingNumber.substring(0, 8)) === routingNumber.charAt(8);
+    }
+
+    /**
+     * Return a random integer in [min,max].
+     */
+    public int(min: number, max: number): number {
+        return min + Math.floor(this.random() * (max - min + 1));
+    }
+
+    private digits(count: number): string {
+        let rtn = "";
+        for (let i = 0; i < count; i++) rtn += this.int(0, 9).toString();
+        return rtn;
+    }
+
+}
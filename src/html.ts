@@ -0,0 +1,148 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+import { Align, AlignOp } from './align.js';
+import { CheckEvalData, CheckResult, CheckStats } from './check.js';
+import { FIELDS, Regression } from './regression.js';
+import { Util } from './util.js';
+
+const STYLE = `
+body { font-family: sans-serif; margin: 2em; }
+table { border-collapse: collapse; margin-bottom: 1.5em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+th { background: #f0f0f0; }
+.check { border: 1px solid #ccc; padding: 8px; margin-bottom: 1em; }
+.check img { max-width: 100%; border: 1px solid #eee; }
+.line { font-family: monospace; font-size: 1.2em; white-space: pre; }
+.label { display: inline-block; width: 10em; color: #666; }
+.sub { background: #ffd27f; }
+.ins { background: #ff9f9f; }
+.del { background: #9fd0ff; text-decoration: line-through; }
+`;
+
+/**
+ * A self-contained HTML report of a test run, written to a directory with the MICR crops of the mismatched
+ * checks bundled in its "images" subdirectory so that the directory may be zipped and shared.
+ */
+export class HtmlReport {
+
+    private dir: string;
+    private images = new Map<string, string>();
+
+    constructor(dir: string) {
+        this.dir = dir;
+        fs.mkdirSync(path.join(dir, "images"), { recursive: true });
+    }
+
+    /**
+     * Store the MICR crop of a check.
+     */
+    public addImage(id: string, image: Buffer) {
+        const name = `images/check-${id}-MICR.${Util.detectImageExt(image) || "png"}`;
+        fs.writeFileSync(path.join(this.dir, name), image);
+        this.images.set(id, name);
+    }
+
+    /**
+     * Write index.html of the report.
+     * @returns The path of the file
+     */
+    public write(opts: { title: string, command: string, stats: CheckStats, results: CheckResult[], checkEvalData: CheckEvalData }): string {
+        const { stats, results } = opts;
+        const html: string[] = [];
+        html.push(`<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${esc(opts.title)}</title>\n<style>${STYLE}</style>\n</head>\n<body>`);
+        html.push(`<h1>${esc(opts.title)}</h1>`);
+        html.push(`<p><code>${esc(opts.command)}</code> at ${esc(new Date().toISOString())}</p>`);
+
+        html.push(`<h2>Summary</h2>`);
+        html.push(table(["Checks", "Matches", "Mismatches", "Wrong in X9", "Errors", "Connection errors", "Match percentage", "Wrong in X9 percentage"],
+            [[stats.total, stats.matches, stats.mismatches, stats.x9Wrong, stats.errors, stats.connectionErrors, stats.matchPercentage, stats.x9WrongPercentage].map(String)]));
+
+        const translators = [...new Set(results.flatMap(r => Object.keys(r.translators)))].sort();
+        html.push(`<h2>Accuracy by translator and field</h2>`);
+        html.push(table(["Translator", "All fields", ...FIELDS], translators.map(tr => [
+            tr,
+            pct(results, r => Regression.fieldsMatch(r.translators[tr])),
+            ...FIELDS.map(f => pct(results, r => Regression.fieldsMatch(r.translators[tr], f))),
+        ])));
+
+        html.push(`<h2>Mismatches by reason</h2>`);
+        html.push(table(["Reason", "Checks"], HtmlReport.reasonCounts(results, opts.checkEvalData).map(([reason, count]) => [reason, String(count)])));
+
+        const mismatches = results.filter(r => !r.match);
+        html.push(`<h2>Mismatched checks (${mismatches.length})</h2>`);
+        html.push(`<p>Differences from the ground truth: <span class="line sub">substituted</span> <span class="line ins">inserted</span> <span class="line del">missing</span></p>`);
+        for (const r of mismatches) html.push(this.galleryEntry(r, opts.checkEvalData));
+
+        html.push(`</body>\n</html>\n`);
+        const file = path.join(this.dir, "index.html");
+        fs.writeFileSync(file, html.join("\n"));
+        return file;
+    }
+
+    /**
+     * Count the mismatched checks of a run by the reason they are listed under in the check evaluation data.
+     */
+    private static reasonCounts(results: CheckResult[], evalData: CheckEvalData): [string, number][] {
+        const reasonOf = new Map<string, string>();
+        for (const [reason, ids] of Object.entries(evalData.mismatchesByReason || {})) {
+            for (const id of ids) reasonOf.set(id.toString(), reason);
+        }
+        const counts = new Map<string, number>();
+        for (const r of results) {
+            if (r.match) continue;
+            const reason = r.wrongInX9 ? "wrong in X9" : reasonOf.get(String(r.id)) || "not evaluated";
+            counts.set(reason, (counts.get(reason) || 0) + 1);
+        }
+        return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    }
+
+    private galleryEntry(r: CheckResult, evalData: CheckEvalData): string {
+        const id = String(r.id);
+        const reason = Object.entries(evalData.mismatchesByReason || {}).find(([, ids]) => ids.some(i => i.toString() === id));
+        const html: string[] = [];
+        html.push(`<div class="check" id="check-${esc(id)}">`);
+        html.push(`<h3>Check ${esc(id)}${reason ? ` &mdash; ${esc(reason[0])}` : ""}${r.wrongInX9 ? " &mdash; wrong in X9" : ""}</h3>`);
+        const image = this.images.get(id);
+        if (image) html.push(`<p><a href="${esc(image)}"><img src="${esc(image)}" alt="MICR crop of check ${esc(id)}"></a></p>`);
+        else html.push(`<p>No MICR image</p>`);
+        const expected = Align.normalize(r.expectedMicrLine || "");
+        html.push(`<div><span class="label">ground truth</span><span class="line">${esc(expected)}</span></div>`);
+        for (const [name, tr] of Object.entries(r.translators)) {
+            const actual = Align.normalize(tr.micrLine || "");
+            const fields = tr.mismatchedFields.length > 0 ? ` (${tr.mismatchedFields.join(", ")})` : "";
+            html.push(`<div><span class="label">${esc(name)}${esc(fields)}</span><span class="line">${HtmlReport.diff(Align.align(expected, actual))}</span></div>`);
+        }
+        html.push(`</div>`);
+        return html.join("\n");
+    }
+
+    /**
+     * Render the actual line of an alignment, highlighting the characters which differ from the expected line.
+     */
+    private static diff(ops: AlignOp[]): string {
+        return ops.map(o => {
+            if (o.op === "equal") return esc(o.actual as string);
+            if (o.op === "sub") return `<span class="sub" title="expected ${esc(o.expected as string)}">${esc(o.actual as string)}</span>`;
+            if (o.op === "ins") return `<span class="ins">${esc(o.actual as string)}</span>`;
+            return `<span class="del">${esc(o.expected as string)}</span>`;
+        }).join("");
+    }
+
+}
+
+function esc(s: string): string {
+    return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function table(header: string[], rows: string[][]): string {
+    const tr = (cells: string[], tag: string) => `<tr>${cells.map(c => `<${tag}>${esc(c)}</${tag}>`).join("")}</tr>`;
+    return `<table>\n${tr(header, "th")}\n${rows.map(r => tr(r, "td")).join("\n")}\n</table>`;
+}
+
+function pct(results: CheckResult[], matched: (r: CheckResult) => boolean): string {
+    if (results.length === 0) return "";
+    return `${((results.filter(matched).length * 100) / results.length).toFixed(2)}%`;
+}
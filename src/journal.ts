@@ -0,0 +1,87 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckResult } from './check.js';
+
+export type Outcome = "match" | "mismatch" | "error";
+
+/**
+ * The outcome of a single check in a journal.
+ */
+export interface JournalRecord {
+    id: string;
+    outcome: Outcome;
+    time: string;
+    result?: CheckResult;
+    error?: string;
+}
+
+/**
+ * A checkpoint journal of the checks completed by a run, stored as one JSON record per line.
+ * Each record is appended synchronously as soon as a check completes so that an interrupted run may be resumed.
+ */
+export class Journal {
+
+    private file: string;
+    private records = new Map<string, JournalRecord>();
+
+    /**
+     * Open a journal, loading the records of a previous run if resuming.
+     */
+    public static open(file: string, resume: boolean): Journal {
+        const journal = new Journal(file);
+        if (resume) {
+            if (!fs.existsSync(file)) throw new Error(`Journal ${file} does not exist`);
+            journal.load();
+        } else {
+            const dir = path.dirname(file);
+            if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(file, "");
+        }
+        return journal;
+    }
+
+    private constructor(file: string) {
+        this.file = file;
+    }
+
+    public getFile(): string {
+        return this.file;
+    }
+
+    /**
+     * Return the records of the checks which completed with a match or mismatch.
+     * Checks which failed with an error are not considered complete so that they are retried.
+     */
+    public getCompleted(): JournalRecord[] {
+        return [...this.records.values()].filter(r => r.outcome !== "error");
+    }
+
+    public isCompleted(id: string): boolean {
+        const r = this.records.get(id);
+        return r !== undefined && r.outcome !== "error";
+    }
+
+    public append(record: JournalRecord) {
+        this.records.set(record.id, record);
+        fs.appendFileSync(this.file, JSON.stringify(record) + "\n");
+    }
+
+    private load() {
+        const lines = fs.readFileSync(this.file).toString().split("\n");
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            let record: JournalRecord;
+            try {
+                record = JSON.parse(line);
+            } catch (e: any) {
+                // The last line may be incomplete if the run was killed while writing it
+                continue;
+            }
+            if (record.id !== undefined) this.records.set(String(record.id), record);
+        }
+    }
+
+}
@@ -6,80 +6,443 @@
 import * as ocr from '@discoverfinancial/fin-ocr-sdk';
 import * as fs from 'fs';
 import * as path from 'path';
-import { CheckMgr } from './check.js';
-import { Queue } from './queue.js';
+import { AUGMENTATIONS, AugmentConfig, Augmenter } from './augment.js';
+import { ScanCache } from './cache.js';
+import { CheckComparer, CheckMgr, CheckResult, cliCtx } from './check.js';
+import { Consensus } from './consensus.js';
+import { CorrectionReview, CorrectionSample, CorrectionSet } from './corrections.js';
+import { CheckEntry, Dataset, DatasetFilter } from './dataset.js';
+import { ImageFiles } from './files.js';
+import { GENERATED_IMAGE_FORMATS, GeneratedImageFormat } from './generator.js';
+import { HtmlReport } from './html.js';
+import { Journal } from './journal.js';
+import { CharMetrics } from './metrics.js';
+import { MICR_FONT_NAMES } from './micr.js';
+import { ModelComparer, ModelRegistry, ScanModel } from './models.js';
+import { CommandSpec, ConfigError, ExitCode, HelpRequest, OptionSpec, Options, ParsedCommand, ParsedOptions, UsageError } from './options.js';
+import { Queue, QueueJob, QueueOpts, QueueProgress } from './queue.js';
+import { Output, OutputFormat, OUTPUT_FORMATS } from './output.js';
+import { Regression } from './regression.js';
+import { Report, ReportFormat } from './report.js';
+import { ConnectionError } from './rest.js';
+import { ScanServer, ServerOpts } from './server.js';
+import { SETTING_GROUPS, SETTINGS } from './settings.js';
+import { Tesstrain, TrainingArchive, TrainingParams } from './training.js';
+import { EvalDataFile, Triage } from './triage.js';
 import { Util } from './util.js';
+import { DatasetValidator } from './validate.js';
+import { X9Importer } from './x9.js';
 import * as readline from 'readline';
 
-function usage(err?: string) {
-    if (err) console.log(`ERROR: ${err}`);
-    console.log(`Usage: ocr check scan <path-to-check-image>`);
-    console.log(`       ocr check scan <start-check-num> <end-check-num>`);
-    console.log(`       ocr check test <start-check-num> <end-check-num>`);
-    console.log(`       ocr check debug <comma-separated-list-of-check-nums>`);
-    console.log(`       ocr check preprocess <output-dir> <start-check-num> <end-check-num>`);
-    console.log(`       ocr check generate <numChecks>`);
-    console.log(`       ocr training generate <model-name> <numSamples>`);
-    console.log(`       ocr buildFiles [<dir>]`);
-    process.exit(1);
-}
+const DATASET_OPTIONS: OptionSpec[] = [
+    { name: "manifest", type: "string", arg: "<file>", desc: "a CSV or JSONL manifest of the checks rather than a range of checks in the checks directory" },
+    { name: "ids", type: "string", arg: "<ids>|@<file>", desc: "only the checks with these comma-separated ids, or the ids listed in a file" },
+    { name: "reason", type: "string", arg: "<reason>", desc: "only the checks listed under this reason in the check evaluation data" },
+    { name: "sample", type: "int", arg: "<count>", desc: "a random sample of this number of checks" },
+    { name: "seed", type: "int", arg: "<seed>", desc: "the seed of the random sample" },
+];
 
-async function main() {
-    let argv = process.argv.slice(2);
-    if (argv.length < 1) usage();
-    const cmd = argv[0];
-    argv = argv.slice(1);
-    if (cmd === "check") {
-        await check(argv);
-    } else if (cmd === "training") {
-        await training(argv);
-    } else if (cmd === "buildFiles") {
-        await buildFiles(argv);
-    } else {
-        usage(`Invalid command: ${cmd}`);
-    }
-}
+const JOURNAL_OPTIONS: OptionSpec[] = [
+    { name: "journal", type: "string", arg: "<file>", desc: "record the outcome of each check in a journal" },
+    { name: "resume", type: "string", arg: "<file>", desc: "resume an interrupted run from its journal, skipping the completed checks" },
+];
+
+const AUGMENT_OPTION: OptionSpec = {
+    name: "augment", type: "string", arg: "<spec>|@<file>",
+    desc: `degrade the images with augmentations given as name[:probability[:strength]],... or as a JSON file; the names are ${Object.keys(AUGMENTATIONS).join(", ")}`,
+};
+
+const COMMANDS: CommandSpec[] = [
+    {
+        name: "check scan",
+        desc: "Scan check images, or a range of checks in the checks directory, and print the results.",
+        usage: ["<path-to-check-image>", "-", "<file|dir|glob>...", "--from-list <file>", "<start-check-num> <end-check-num>"],
+        options: [
+            { name: "from-list", type: "string", arg: "<file>", desc: "scan the image files listed in a file, one per line, or '-' for stdin" },
+            { name: "output", type: "string", arg: "<format>", choices: OUTPUT_FORMATS, desc: "the format of the results written to stdout: json, ndjson, csv or table (default: json)" },
+        ],
+        settings: ["general", "scan", "data"],
+        validate: (args, opts) => {
+            if (args.length < 1 && opts["from-list"] === undefined) throw new UsageError("Missing argument <path-to-check-image>");
+            if (args.indexOf("-") >= 0 && (args.length > 1 || opts["from-list"] === "-")) {
+                throw new UsageError("'-' reads a single image from stdin and can not be combined with other paths");
+            }
+        },
+        run: checkScan,
+    },
+    {
+        name: "check test",
+        desc: "Scan checks and compare the results with the ground truth, reporting the accuracy of each translator.",
+        usage: ["<start-check-num> [<count>]", "--manifest <file>"],
+        options: [
+            ...DATASET_OPTIONS,
+            ...JOURNAL_OPTIONS,
+            { name: "report", type: "string", arg: "<file>", desc: "write a report of the run" },
+            { name: "report-format", type: "string", arg: "json|junit", desc: "the format of the report (default: junit if the file ends with .xml, else json)" },
+            { name: "html-report", type: "string", arg: "<dir>", desc: "write a browsable HTML report with a gallery of the mismatched checks to a directory" },
+            { name: "min-accuracy", type: "number", arg: "<percentage>", desc: "exit with status 5 if the match percentage is below this" },
+            { name: "max-errors", type: "int", arg: "<count>", desc: "exit with status 4 if more than this number of checks fail with an error (default: 0)" },
+            { name: "char-metrics", type: "boolean", desc: "also report the character error rate, insertions, deletions and confusion matrix of each translator's MICR line" },
+            { name: "scoring", type: "string", arg: "<policies>", desc: "also report the accuracy of decision policies: a translator, agree, fallback or fallback:<translator>>...; comma-separated" },
+        ],
+        settings: ["general", "scan", "data", "run"],
+        validate: validateDatasetArgs(0),
+        run: checkTest,
+    },
+    {
+        name: "check compare",
+        desc: "Compare a candidate run report with a baseline report, failing if the accuracy regressed.",
+        usage: ["<baseline-report> <candidate-report>"],
+        args: [{ name: "baseline-report" }, { name: "candidate-report" }],
+        options: [
+            { name: "max-drop", type: "number", arg: "<percentage-points>", desc: "fail if the match percentage drops by more than this" },
+            { name: "fail-on-new-mismatch", type: "boolean", desc: "fail if any check which matched in the baseline mismatches in the candidate" },
+            { name: "output", type: "string", arg: "<file>", desc: "write the comparison as JSON" },
+        ],
+        settings: ["general"],
+        run: checkCompare,
+    },
+    {
+        name: "check debug",
+        desc: "Scan checks with all debug images and verbose logging, writing a page of the debug images.",
+        usage: ["<comma-separated-list-of-check-ids>", "--manifest <file>", "--reason <reason>"],
+        options: DATASET_OPTIONS,
+        settings: ["general", "scan", "data"],
+        validate: (args, opts) => {
+            if (args.length > 1) throw new UsageError("Too many arguments");
+            if (args.length == 0 && !opts.manifest && !opts.reason) throw new UsageError("Missing argument <comma-separated-list-of-check-ids>");
+        },
+        run: checkDebug,
+    },
+    {
+        name: "check triage",
+        desc: "Walk through the mismatches to evaluate and the matches to reevaluate, recording the decisions in the check evaluation data.",
+        usage: ["--report <run-report>", "<start-check-num> [<count>]", "--manifest <file>"],
+        options: [
+            { name: "report", type: "string", arg: "<file>", desc: "triage the checks of the JSON report of a test run rather than scanning them" },
+            ...DATASET_OPTIONS,
+        ],
+        settings: ["general", "scan", "data", "run"],
+        validate: (args, opts) => {
+            if (opts.report === undefined) return validateDatasetArgs(0)(args, opts);
+            if (args.length > 0 || opts.manifest) throw new UsageError("The checks are given by --report");
+        },
+        run: checkTriage,
+    },
+    {
+        name: "check preprocess",
+        desc: "Scan checks and write the preprocessed MICR line images and ground truth for training.",
+        usage: ["<output-dir> <start-check-num> [<count>]", "<output-dir> --manifest <file>"],
+        options: [...DATASET_OPTIONS, ...JOURNAL_OPTIONS],
+        settings: ["general", "scan", "data", "run"],
+        validate: validateDatasetArgs(1),
+        run: checkPreprocess,
+    },
+    {
+        name: "check validate",
+        desc: "Validate the image and ground truth files of checks, and suggest corrections of ground truth which is probably wrong.",
+        usage: ["<start-check-num> [<count>]", "--manifest <file>"],
+        options: [
+            ...DATASET_OPTIONS,
+            { name: "scan", type: "boolean", desc: "scan the valid checks and suggest a correctX9 entry for each mismatch on whose fields the translators agree" },
+            { name: "report", type: "string", arg: "<file>", desc: "write the issues and suggestions as JSON" },
+            { name: "fix", type: "string", arg: "<file>", desc: "add the suggested correctX9 entries to a check evaluation data file" },
+        ],
+        settings: ["general", "scan", "data", "run"],
+        validate: (args, opts) => {
+            validateDatasetArgs(0)(args, opts);
+            if (opts.fix && !opts.scan) throw new UsageError("--fix requires --scan, which makes the suggestions");
+        },
+        run: checkValidate,
+    },
+    {
+        name: "check generate",
+        desc: "Generate check images and their ground truth JSON files in the checks directory.",
+        usage: ["<numChecks>"],
+        args: [{ name: "numChecks", type: "int" }],
+        options: [
+            { name: "format", type: "string", arg: "<format>", choices: GENERATED_IMAGE_FORMATS, desc: "the format of the images: png or jpg (default: png)" },
+            { name: "seed", type: "int", arg: "<seed>", desc: "the seed of the random check fields, to generate the same checks again" },
+            { name: "aux-on-us", type: "boolean", desc: "put the check number in the auxiliary on-us field, as on business checks" },
+            { name: "amount", type: "boolean", desc: "print an amount field on the MICR line" },
+            AUGMENT_OPTION,
+            { name: "yes", type: "boolean", desc: "overwrite existing checks without asking" },
+        ],
+        settings: ["general", "data", "training"],
+        run: checkGenerate,
+    },
+    {
+        name: "check import-x9",
+        desc: "Import the checks of X9.37 image cash letter files into the checks directory.",
+        usage: ["<x9-file>..."],
+        args: [{ name: "x9-file", variadic: true }],
+        options: [
+            { name: "start", type: "int", arg: "<check-num>", desc: "the number of the first imported check (default: after the last check)" },
+        ],
+        settings: ["general", "data"],
+        run: checkImportX9,
+    },
+    {
+        name: "training generate",
+        desc: "Generate tesstrain ground truth images and text for a model.",
+        usage: ["<model-name> <numSamples>"],
+        args: [{ name: "model-name" }, { name: "numSamples", type: "int" }],
+        options: [
+            { name: "seed", type: "int", arg: "<seed>", desc: "the seed of the random MICR fields, augmentations and train/eval split" },
+            { name: "font", type: "string", arg: "<font>", choices: MICR_FONT_NAMES, desc: "the font of the MICR lines: micr or ocr-a (default: micr)" },
+            { name: "font-file", type: "string", arg: "<file>", desc: "the font file (default: the font's file in $TESSDATA_PREFIX/fonts)" },
+            { name: "size", type: "int", arg: "<pixels>", desc: "the font size (default: 16)" },
+            { name: "margin", type: "int", arg: "<pixels>", desc: "the margin around each line (default: 4)" },
+            { name: "gap", type: "int", arg: "<spaces>", desc: "the number of spaces between fields (default: 2)" },
+            { name: "aux-on-us", type: "boolean", desc: "put the check number in the auxiliary on-us field, as on business checks" },
+            { name: "amount", type: "boolean", desc: "add an amount field to the MICR line" },
+            { name: "eval-ratio", type: "number", arg: "<ratio>", desc: "the fraction of samples held out for evaluation (default: 0.1)" },
+            AUGMENT_OPTION,
+        ],
+        settings: ["general", "training"],
+        run: trainingGenerate,
+    },
+    {
+        name: "training lists",
+        desc: "Write the train/eval split of generated training data to the tesstrain list files, after 'make lists' has built the .lstmf files.",
+        usage: ["<model-name>"],
+        args: [{ name: "model-name" }],
+        settings: ["general", "training"],
+        run: trainingLists,
+    },
+    {
+        name: "training run",
+        desc: "Generate ground truth from checks, train a model with tesstrain, archive it and test it on held-out checks.",
+        usage: ["<start-check-num> <count>"],
+        args: [{ name: "start-check-num", type: "int" }, { name: "count", type: "int" }],
+        options: [
+            { name: "model", type: "string", arg: "<name>", desc: "the MODEL_NAME of the traineddata (default: micr_e13b)" },
+            { name: "psm", type: "int", arg: "<mode>", desc: "the tesseract page segmentation mode (default: 13)" },
+            { name: "epochs", type: "int", arg: "<count>", desc: "the number of training epochs (default: 2)" },
+            { name: "target-error-rate", type: "number", arg: "<rate>", desc: "stop training at this error rate; -1 to train for all epochs (default: -1)" },
+            { name: "test-start", type: "int", arg: "<check-num>", desc: "the first held-out check to test the model with (default: the check after the training range)" },
+            { name: "test-count", type: "int", arg: "<count>", desc: "the number of held-out checks; 0 to skip the test (default: a tenth of <count>)" },
+            { name: "min-accuracy", type: "number", arg: "<percentage>", desc: "exit with status 5 if the match percentage of the test is below this" },
+            { name: "regenerate", type: "boolean", desc: "regenerate the ground truth even if it was generated from the same checks" },
+        ],
+        settings: ["general", "scan", "data", "run", "training"],
+        run: trainingRun,
+    },
+    {
+        name: "model list",
+        desc: "List the registered traineddata models.",
+        usage: [""],
+        settings: ["general", "scan"],
+        run: modelList,
+    },
+    {
+        name: "model add",
+        desc: "Register a traineddata file, or the traineddata archived by a training run with its parameters and test result.",
+        usage: ["<name> <traineddata-file|training-archive-dir>"],
+        args: [{ name: "name" }, { name: "source" }],
+        options: [
+            { name: "font", type: "string", arg: "<font>", desc: "the tesseract model name with which the SDK loads it (default: the file name without .traineddata)" },
+            { name: "use", type: "boolean", desc: "also make it the active model" },
+        ],
+        settings: ["general", "scan"],
+        run: modelAdd,
+    },
+    {
+        name: "model use",
+        desc: "Make a registered model the one with which local scans are performed.",
+        usage: ["<name>"],
+        args: [{ name: "name" }],
+        settings: ["general", "scan"],
+        run: modelUse,
+    },
+    {
+        name: "model info",
+        desc: "Print the hash, parameters and test results of a registered model.",
+        usage: ["[<name>]"],
+        args: [{ name: "name", optional: true }],
+        settings: ["general", "scan"],
+        run: modelInfo,
+    },
+    {
+        name: "model compare",
+        desc: "Scan the same checks with two registered models and report which checks each model alone gets right.",
+        usage: ["<model-a> <model-b> <start-check-num> [<count>]", "<model-a> <model-b> --manifest <file>"],
+        options: [
+            ...DATASET_OPTIONS,
+            { name: "output", type: "string", arg: "<file>", desc: "write the comparison as JSON to a file" },
+        ],
+        settings: ["general", "scan", "data", "run"],
+        validate: validateDatasetArgs(2),
+        run: modelCompare,
+    },
+    {
+        name: "corrections list",
+        desc: "List the corrected characters in the corrections directory by value and number of contours.",
+        usage: [""],
+        settings: ["general", "scan"],
+        run: correctionsList,
+    },
+    {
+        name: "corrections show",
+        desc: "List the samples of a character value, or of a value with a number of contours.",
+        usage: ["<value>[:<contours>]"],
+        args: [{ name: "group" }],
+        settings: ["general", "scan"],
+        run: correctionsShow,
+    },
+    {
+        name: "corrections review",
+        desc: "Keep or reject each sample of the corrections directory, or of a value, interactively.",
+        usage: ["[<value>[:<contours>]]"],
+        args: [{ name: "group", optional: true }],
+        options: [
+            { name: "rejected", type: "boolean", desc: "review the rejected samples rather than those which are kept" },
+        ],
+        settings: ["general", "scan"],
+        run: correctionsReview,
+    },
+    {
+        name: "corrections prune",
+        desc: "Delete the duplicate and rejected samples from the corrections directory.",
+        usage: [""],
+        options: [
+            { name: "duplicates", type: "boolean", desc: "only delete the samples with the same image as an earlier sample" },
+            { name: "rejected", type: "boolean", desc: "only delete the rejected samples" },
+            { name: "dry-run", type: "boolean", desc: "list the samples which would be deleted without deleting them" },
+        ],
+        settings: ["general", "scan"],
+        run: correctionsPrune,
+    },
+    {
+        name: "corrections export",
+        desc: "Copy the samples which are neither duplicates, conflicts nor rejected, with a CSV file of their labels, to a directory for retraining.",
+        usage: ["<dir>"],
+        args: [{ name: "dir" }],
+        settings: ["general", "scan"],
+        run: correctionsExport,
+    },
+    {
+        name: "cache stats",
+        desc: "List the generations of the scan cache with their entries, size, hits and misses.",
+        usage: [""],
+        settings: ["general", "scan"],
+        run: cacheStats,
+    },
+    {
+        name: "cache clear",
+        desc: "Delete a generation of the scan cache, or the whole cache.",
+        usage: ["[<generation>]"],
+        args: [{ name: "generation", optional: true }],
+        settings: ["general", "scan"],
+        run: cacheClear,
+    },
+    {
+        name: "serve",
+        desc: "Run a REST service which scans the checks sent to /check/scan locally, for use as the URL of another CLI.",
+        usage: [""],
+        options: [
+            { name: "port", type: "int", arg: "<port>", desc: "the port to listen on (default: 3000)" },
+            { name: "host", type: "string", arg: "<address>", desc: "the address to listen on (default: all addresses)" },
+            { name: "max-body-size", type: "number", arg: "<megabytes>", desc: "refuse requests larger than this with status 413 (default: 10)" },
+            { name: "max-batch-size", type: "int", arg: "<count>", desc: "the largest number of requests in a batch (default: 100)" },
+            { name: "max-concurrency", type: "int", arg: "<count>", desc: "the number of scans performed at once (default: the concurrency)" },
+            { name: "max-queue", type: "int", arg: "<count>", desc: "the number of scans which may wait before requests are refused with status 503 (default: 100)" },
+        ],
+        settings: ["general", "scan", "run"],
+        run: serve,
+    },
+    {
+        name: "buildFiles",
+        desc: "Bundle the files directory into a typescript file which can be read from within a browser.",
+        usage: ["[<dir>]"],
+        args: [{ name: "dir", optional: true }],
+        settings: ["general"],
+        run: buildFiles,
+    },
+];
 
-async function check(argv: string[]) {
-    if (argv.length < 2) usage();
-    const cmd = argv[0] as string;
-    argv = argv.slice(1);
+const options = new Options(COMMANDS, SETTINGS, SETTING_GROUPS);
+
+async function main() {
+    const argv = process.argv.slice(2);
+    let parsed: ParsedCommand | undefined;
     try {
-        if (cmd === "scan") {
-            await checkScan(argv);
-        } else if (cmd === "test") {
-            await checkTest(argv);
-        } else if (cmd === "debug") {
-            await checkDebug(argv);
-        } else if (cmd === "preprocess") {
-            await checkPreprocess(argv);
-        } else if (cmd === "generate") {
-            await checkGenerate(argv);
-        } else {
-            usage(`Invalid check command: ${cmd}`);
+        if (argv.length < 1) throw new UsageError("Missing command");
+        parsed = options.parse(argv);
+        options.applySettings(parsed.opts, (parsed.opts.config as string | undefined) || process.env.FIN_OCR_CONFIG);
+    } catch (e: any) {
+        if (e instanceof HelpRequest) {
+            console.log(options.help(e.prefix, e.command));
+            if (!e.prefix) console.log(`\n${options.settingsHelp()}`);
+            return;
         }
+        process.exit(exitCodeOf(e, parsed));
+    }
+    try {
+        await parsed.command.run(parsed.args, parsed.opts, parsed);
     } catch (e: any) {
-        if (e.response && e.response.data) console.log(`Error Response: ${JSON.stringify(e.response.data,null,4)}`);
-        else if (e.stack) console.log(`Caught Exception: ${e.stack}`);
-        else console.log(`Exception: ${JSON.stringify(e)}`);
+        process.exitCode = exitCodeOf(e, parsed);
     }
 }
 
-async function checkGenerate(argv: string[]): Promise<void> {
-    if (argv.length != 1) usage();
-    const count = parseInt(argv[0] as string);
-    const cm = await CheckMgr.getInstance();
-    if (!cm) return;
+/**
+ * Print an error and return the exit code for it.
+ */
+function exitCodeOf(e: any, parsed?: ParsedCommand): number {
+    if (e instanceof UsageError) {
+        console.error(`ERROR: ${e.message}`);
+        console.error(options.help("", e.command || (parsed && parsed.command)));
+        return ExitCode.USAGE;
+    }
+    if (e instanceof ConfigError) {
+        console.error(`ERROR: ${e.message}`);
+        return ExitCode.CONFIG;
+    }
+    logErr(e);
+    return ExitCode.ERROR;
+}
+
+/**
+ * Get the check manager, failing with a config error if it can not be initialized, such as when the REST
+ * service is not healthy.  Local scans use the given model, or else the active model of the registry, if any.
+ */
+async function getCheckMgr(model?: ScanModel): Promise<CheckMgr> {
+    const cm = await CheckMgr.getInstance(model || ModelRegistry.open().getScanModel());
+    if (!cm) throw new ConfigError("Failed to initialize the check manager");
+    return cm;
+}
 
-    const existingFiles: string[] = [];
-    for (let i = 1; i <= count; i++) {
-        const filePath = path.join(cm.getChecksDir(), `check-${i}.tiff`);
-        if (fs.existsSync(filePath)) {
-            existingFiles.push(filePath);
+/**
+ * Return a validator of the arguments of a command which takes a dataset, preceded by "fixed" other arguments:
+ * either <start> [<count>] or, with --manifest, no further arguments.
+ */
+function validateDatasetArgs(fixed: number): (args: string[], opts: ParsedOptions) => void {
+    return function(args: string[], opts: ParsedOptions) {
+        if (opts.journal && opts.resume) throw new UsageError("Specify either --journal or --resume but not both");
+        if (opts.manifest) {
+            if (args.length < fixed) throw new UsageError("Missing argument");
+            if (args.length > fixed) throw new UsageError("Too many arguments; the checks are given by --manifest");
+            return;
         }
+        if (args.length < fixed + 1) throw new UsageError("Missing argument <start-check-num>");
+        if (args.length > fixed + 2) throw new UsageError("Too many arguments");
+        Options.intArg(args[fixed], "<start-check-num>");
+        if (args.length == fixed + 2) Options.intArg(args[fixed + 1], "<count>");
+    };
+}
+
+async function checkGenerate(args: string[], opts: ParsedOptions): Promise<void> {
+    const count = Options.intArg(args[0], "<numChecks>");
+    const augment = getAugmentConfig(opts);
+    const cm = await getCheckMgr();
+    let seed = opts.seed as number | undefined;
+    if (seed === undefined) {
+        seed = Date.now() % 2147483647;
+        cm.getContext().info(`Generating with seed ${seed}`);
     }
 
-    if (existingFiles.length > 0) {
+    const existingFiles = cm.getExistingCheckFiles(count);
+    if (existingFiles.length > 0 && !opts.yes) {
         console.log(`The following files already exist:`);
         existingFiles.forEach(file => console.log(file));
         const userConfirmed = await promptUser(`Do you want to overwrite these files? (yes/no): `);
@@ -91,10 +454,28 @@ async function checkGenerate(argv: string[]): Promise<void> {
         }
     }
 
-    await cm.generateCheckImages(count);
+    await cm.generateCheckImages(count, {
+        seed,
+        format: (opts.format || "png") as GeneratedImageFormat,
+        auxOnUs: opts["aux-on-us"] === true,
+        amount: opts.amount === true,
+        augment,
+    });
     await cm.stop();
 }
 
+async function checkImportX9(args: string[], opts: ParsedOptions) {
+    const start = opts.start as number | undefined;
+    if (start !== undefined && start < 1) throw new UsageError(`Invalid value for --start: ${start}`);
+    const ctx = cliCtx();
+    const importer = new X9Importer(CheckMgr.defaultChecksDir(), ctx, start);
+    const first = importer.getNextId();
+    for (const file of args) {
+        importer.import(file);
+    }
+    ctx.info(`Imported checks ${first} through ${importer.getNextId() - 1} into ${CheckMgr.defaultChecksDir()}`);
+}
+
 function promptUser(query: string): Promise<string> {
     const rl = readline.createInterface({
         input: process.stdin,
@@ -107,148 +488,829 @@ function promptUser(query: string): Promise<string> {
     }));
 }
 
-async function checkScan(argv: string[]): Promise<void> {
-    if (argv.length < 1 || argv.length > 2) usage();
-
-    const cm = await CheckMgr.getInstance();
-    if (!cm) return;
+async function checkScan(args: string[], opts: ParsedOptions): Promise<void> {
+    const output = new Output((opts.output || "json") as OutputFormat);
+    const cm = await getCheckMgr();
+    const ctx = cm.getContext();
 
     const groundTruthDir = process.env.GROUND_TRUTH_DIR;
     const scanOpts: any = {};
     if (groundTruthDir) {
-        console.log("Ground Truth Dir: " + groundTruthDir);
+        ctx.info("Ground Truth Dir: " + groundTruthDir);
         scanOpts.groundTruthDir = groundTruthDir;
         scanOpts.comparer = cm.newCheckComparer();
         scanOpts.debug = ["MICR"];
         scanOpts.debugImageDir = groundTruthDir+"/debugImages";
     }
 
-    if (argv.length === 1) {
-        const checkFile = argv[0];
-        if (typeof checkFile === 'string') { 
+    let failed = 0;
+    let multiple = true;
+    if (args.length === 1 && args[0] === "-") {
+        // A single image from stdin
+        multiple = false;
+        try {
+            const result = await cm.scan("stdin", { ...scanOpts, buffer: fs.readFileSync(0) });
+            output.write("stdin", result);
+        } catch (e: any) {
+            ctx.error(`Error processing stdin: ${e.stack || e.message}`);
+            failed++;
+        }
+    } else if (!isScanRange(args)) {
+        const listFile = opts["from-list"] as string | undefined;
+        const files = [...(listFile ? ImageFiles.fromList(listFile) : []), ...ImageFiles.expand(args)];
+        multiple = listFile !== undefined || args.length !== 1 || files.length !== 1 || files[0] !== args[0];
+        let next = 0;
+        const nextJob = function(): QueueJob<ocr.CheckScanResponse> | undefined {
+            const file = files[next++];
+            if (!file) return undefined;
+            return {
+                name: file,
+                run: (signal: AbortSignal) => cm.scan(file, { ...scanOpts, signal }),
+                done: (result: ocr.CheckScanResponse) => output.write(file, result),
+                failed: (e: Error) => {
+                    ctx.error(`Error processing file ${file}: ${e.stack || e.message}`);
+                    failed++;
+                },
+            };
+        };
+        if (multiple) ctx.info(`Scanning ${files.length} files`);
+        await new Queue(nextJob, getQueueOpts()).run();
+    } else {
+        const start = Number(args[0]);
+        const end = Number(args[1]);
+        for (let i = start; i <= end; i++) {
             try {
+                const checkFile = cm.getCheckFile(i);
+                scanOpts.id = i.toString();
                 const result = await cm.scan(checkFile, scanOpts);
-                console.log(JSON.stringify(result, null, 4));
-            } catch (error) {
-                console.error(`Error processing file ${checkFile}:`, error);
+                output.write(i.toString(), result);
+            } catch (e: any) {
+                ctx.error(`Error processing check ${i}: ${e.stack || e.message}`);
+                failed++;
             }
-        } else {
-            console.error("Invalid check file path");
-        }
-    } else {
-        const start = Number(argv[0]);
-        const end = Number(argv[1]);
-        if (!isNaN(start) && !isNaN(end)) {  // Add checks for valid numbers
-            for (let i = start; i <= end; i++) {
-                try {
-                    const checkFile = cm.getCheckFile(i);
-                    scanOpts.id = i;
-                    const result = await cm.scan(checkFile, scanOpts);
-                    console.log(`Result for check-${i}:`, JSON.stringify(result, null, 4));
-                } catch (error) {
-                    console.error(`Error processing check ${i}:`, error);
-                }
-            }
-        } else {
-            console.error("Invalid start or end number");
         }
     }
+    output.end(multiple);
 
     await cm.stop();
+    if (failed > 0) process.exitCode = ExitCode.ITEM_FAILURES;
+}
+
+async function trainingGenerate(args: string[], opts: ParsedOptions) {
+    const modelName = args[0] as string;
+    const count = Options.intArg(args[1], "<numSamples>");
+    const augment = getAugmentConfig(opts);
+    const evalRatio = opts["eval-ratio"] as number | undefined;
+    if (evalRatio !== undefined && (evalRatio < 0 || evalRatio >= 1)) throw new UsageError(`Invalid value for --eval-ratio: ${evalRatio}; expecting a number in [0,1)`);
+    const cm = await getCheckMgr();
+    let seed = opts.seed as number | undefined;
+    if (seed === undefined) {
+        seed = Date.now() % 2147483647;
+        cm.getContext().info(`Generating with seed ${seed}`);
+    }
+    await cm.generateTrainingData(modelName, count, {
+        seed,
+        augment,
+        font: opts.font as string | undefined,
+        fontFile: opts["font-file"] as string | undefined,
+        size: opts.size as number | undefined,
+        margin: opts.margin as number | undefined,
+        gap: opts.gap as number | undefined,
+        auxOnUs: opts["aux-on-us"] === true,
+        amount: opts.amount === true,
+        evalRatio,
+    });
+    await cm.stop();
+}
+
+async function trainingLists(args: string[]) {
+    const lists = CheckMgr.writeTrainingLists(args[0] as string);
+    cliCtx().info(`Wrote ${lists.train} samples for training to ${path.join(lists.dir, "list.train")} and ${lists.eval} for evaluation to ${path.join(lists.dir, "list.eval")}`);
 }
 
-async function training(argv: string[]) {
-    if (argv.length < 3) usage();
-    const cmd = argv[0] as string;
-    argv = argv.slice(1);
+/**
+ * Train a model from a range of checks: write the preprocessed MICR line images and ground truth of the checks to
+ * the model's tesstrain ground truth directory, train with tesstrain, archive the traineddata with its log and
+ * parameters, and test the new model on a held-out range of checks.  The ground truth is reused if it was
+ * generated from the same range.
+ */
+async function trainingRun(args: string[], opts: ParsedOptions) {
+    const start = Options.intArg(args[0], "<start-check-num>");
+    const count = Options.intArg(args[1], "<count>");
+    const params: TrainingParams = {
+        modelName: (opts.model as string | undefined) || "micr_e13b",
+        psm: (opts.psm as number | undefined) ?? 13,
+        epochs: (opts.epochs as number | undefined) ?? 2,
+        targetErrorRate: (opts["target-error-rate"] as number | undefined) ?? -1,
+    };
+    const testStart = (opts["test-start"] as number | undefined) ?? start + count;
+    const testCount = (opts["test-count"] as number | undefined) ?? Math.max(1, Math.round(count / 10));
+    const minAccuracy = opts["min-accuracy"] as number | undefined;
+    if (testCount < 0) throw new UsageError(`Invalid value for --test-count: ${testCount}`);
+    if (testCount > 0 && testStart < start + count && testStart + testCount > start) {
+        throw new UsageError(`The test checks ${testStart} to ${testStart + testCount - 1} overlap the training checks ${start} to ${start + count - 1}`);
+    }
+    const tesstrain = new Tesstrain(process.env.TESSTRAIN_DIR as string, process.env.TESSTRAIN_DATA_DIR as string);
+    const archive = TrainingArchive.create(process.env.TRAINING_ARCHIVE_DIR as string, {
+        params,
+        train: { start, count },
+        test: testCount > 0 ? { start: testStart, count: testCount } : undefined,
+        startTime: new Date().toISOString(),
+    });
+    const ctx = cliCtx();
+    ctx.info(`Archiving the training run in ${archive.dir}`);
     try {
-        if (cmd === "generate") {
-            await trainingGenerate(argv);
+        // Generate the ground truth
+        const gtDir = tesstrain.getGroundTruthDir(params.modelName);
+        const countFile = path.join(gtDir, "count");
+        const range = `${start}:${count}`;
+        if (!opts.regenerate && fs.existsSync(countFile) && fs.readFileSync(countFile).toString().trim() === range) {
+            ctx.info(`Found ground truth for checks ${range} in ${gtDir}`);
         } else {
-            usage(`Invalid training command: ${cmd}`);
+            fs.rmSync(gtDir, { recursive: true, force: true });
+            fs.mkdirSync(gtDir, { recursive: true });
+            const cm = await getCheckMgr();
+            const comparer = cm.newCheckComparer();
+            const finish = async function() {
+                await cm.stop();
+            };
+            try {
+                await runChecks(Dataset.fromRange(start, count), comparer, undefined, (entry, signal) => cm.preprocessEntry(entry, comparer, gtDir, signal), finish);
+            } finally {
+                await finish();
+            }
+            const errors = comparer.getStats().errors;
+            if (errors > 0) ctx.warn(`No ground truth was generated for ${errors} checks which failed with an error`);
+            fs.writeFileSync(countFile, range);
+        }
+
+        // Train and archive the model
+        ctx.info(`Training model ${params.modelName} with PSM=${params.psm} and EPOCHS=${params.epochs}; the log is ${archive.getLogFile()}`);
+        const traineddata = archive.addTraineddata(await tesstrain.train(params, archive.getLogFile()));
+        ctx.info(`Stored traineddata at ${traineddata}`);
+        if (testCount === 0) {
+            archive.update({ endTime: new Date().toISOString() });
+            return;
+        }
+
+        // Test the archived model on the held-out checks, with the traineddata of the other translators
+        Util.linkTraineddata(process.env.TESSDATA_PREFIX || "", archive.dir, params.modelName);
+        const startTime = Date.now();
+        const cm = await getCheckMgr({ name: path.basename(archive.dir), dir: archive.dir, font: params.modelName, sha256: ModelRegistry.sha256(traineddata) });
+        const comparer = cm.newCheckComparer();
+        const finish = async function() {
+            await cm.stop();
+        };
+        try {
+            await runChecks(Dataset.fromRange(testStart, testCount), comparer, undefined, (entry, signal) => cm.scanEntry(entry, {comparer, logLevel: "warn", signal}), finish);
+        } finally {
+            await finish();
         }
+        comparer.logStats();
+        const reportFile = path.join(archive.dir, "report.json");
+        Report.write(Report.build({ command: ["check", "test", testStart, testCount].join(" "), startTime, cm, comparer }), reportFile, "json");
+        const stats = comparer.getStats();
+        archive.update({
+            endTime: new Date().toISOString(),
+            accuracy: comparer.getMatchRate(),
+            testResult: { total: stats.total, matches: stats.matches, errors: stats.errors },
+        });
+        ctx.info(`Wrote the test report to ${reportFile}`);
+        process.exitCode = getTestExitCode(comparer, minAccuracy);
     } catch (e: any) {
-        if (e.response && e.response.data) console.log(`Error Response: ${JSON.stringify(e.response.data,null,4)}`);
-        else if (e.stack) console.log(`Caught Exception: ${e.stack}`);
-        else console.log(`Exception: ${JSON.stringify(e)}`);
+        archive.update({ endTime: new Date().toISOString(), error: e.message });
+        throw e;
     }
 }
 
-async function trainingGenerate(argv: string[]) {
-    if (argv.length !== 2) usage();
-    const modelName: string = argv[0] ?? '';  
-    const count: number = parseInt(argv[1] ?? '0', 10); 
-    if (!modelName || isNaN(count)) {
-        usage();  
+async function modelList() {
+    const registry = ModelRegistry.open();
+    const active = registry.getActiveName();
+    const columns = ["", "name", "font", "sha256", "added", "accuracy"];
+    const rows = registry.list().map(m => {
+        const last = m.results[m.results.length - 1];
+        return [m.name === active ? "*" : "", m.name, m.font, m.sha256.substring(0, 12), m.added.substring(0, 10), last ? `${last.accuracy.toFixed(2)}% (${last.checks})` : ""];
+    });
+    if (rows.length === 0) {
+        cliCtx().info(`No models are registered in ${registry.getDir()}; add one with 'ocr model add'`);
         return;
     }
-    const cm = await CheckMgr.getInstance();
-    if (!cm) return;
-    await cm.generateTrainingData(modelName, count);
-    await cm.stop();
+    printTable(columns, rows);
 }
 
+async function modelAdd(args: string[], opts: ParsedOptions) {
+    const registry = ModelRegistry.open();
+    const entry = registry.add(args[0] as string, args[1] as string, opts.font as string | undefined);
+    const ctx = cliCtx();
+    ctx.info(`Registered model ${entry.name} with sha256 ${entry.sha256}`);
+    const duplicates = registry.getDuplicates(entry);
+    if (duplicates.length > 0) ctx.warn(`Model ${entry.name} has the same traineddata as ${duplicates.join(", ")}`);
+    if (opts.use) {
+        registry.use(entry.name);
+        ctx.info(`Local scans now use model ${entry.name}`);
+    }
+}
+
+async function modelUse(args: string[]) {
+    const registry = ModelRegistry.open();
+    registry.use(args[0] as string);
+    cliCtx().info(`Local scans now use model ${args[0]}`);
+}
 
-async function checkTest(argv: string[]) {
-    if (argv.length < 1 || argv.length > 2) usage();
+async function modelInfo(args: string[]) {
+    const registry = ModelRegistry.open();
+    const name = args[0] || registry.getActiveName();
+    if (!name) throw new ConfigError("No model is active; give the name of a model");
+    const entry = registry.get(name);
+    const info = { ...entry, active: name === registry.getActiveName(), dir: registry.toScanModel(entry).dir };
+    console.log(JSON.stringify(info, null, 4));
+}
+
+/**
+ * Scan the same checks with each of two models, one after the other, and compare which checks each gets right.
+ */
+async function modelCompare(args: string[], opts: ParsedOptions) {
+    if (process.env.URL) throw new ConfigError("Models can only be compared by local scans; unset URL");
+    const outputFile = opts.output as string | undefined;
+    const dsOpts = getDatasetOpts(opts);
+    const registry = ModelRegistry.open();
+    const models = args.slice(0, 2).map(name => registry.toScanModel(registry.get(name)));
+    const checks = describeChecks(args.slice(2), dsOpts);
+    const ctx = cliCtx();
+    let dataset: Dataset | undefined;
+    const comparers: CheckComparer[] = [];
+    for (const model of models) {
+        const cm = await getCheckMgr(model);
+        // Filter the dataset once so that both models scan the same sample
+        dataset = dataset || getDataset(dsOpts, args.slice(2), cm);
+        ctx.info(`Scanning ${dataset.entries.length} checks with model ${model.name}`);
+        const comparer = cm.newCheckComparer();
+        const finish = async function() {
+            await cm.stop();
+        };
+        try {
+            await runChecks(dataset, comparer, undefined, (entry, signal) => cm.scanEntry(entry, {comparer, logLevel: "warn", signal}), finish);
+        } finally {
+            await finish();
+        }
+        recordModelResult(cm, comparer, checks);
+        comparers.push(comparer);
+    }
+    const [a, b] = models as [ScanModel, ScanModel];
+    const [ca, cb] = comparers as [CheckComparer, CheckComparer];
+    const cmp = ModelComparer.compare(a.name, ca.getResults(), ca.getErrors().map(e => e.id), b.name, cb.getResults(), cb.getErrors().map(e => e.id));
+    for (const line of ModelComparer.format(cmp)) console.log(line);
+    if (outputFile) fs.writeFileSync(outputFile, JSON.stringify(cmp, null, 4));
+}
+
+/**
+ * Record the result of a test in the model registry if the checks were scanned with a registered model.
+ */
+function recordModelResult(cm: CheckMgr, comparer: CheckComparer, checks: string) {
+    const model = cm.getModel();
+    if (!model) return;
+    const registry = ModelRegistry.open();
+    if (!registry.isRegistered(model)) return;
+    const stats = comparer.getStats();
+    registry.addResult(model.name, {
+        time: new Date().toISOString(),
+        checks,
+        total: stats.total,
+        matches: stats.matches,
+        errors: stats.errors,
+        accuracy: comparer.getMatchRate(),
+    });
+}
+
+/**
+ * Describe the checks of a dataset for the test results of a model.
+ */
+function describeChecks(rangeArgs: string[], opts: { manifest?: string, filter: DatasetFilter }): string {
+    let rtn = opts.manifest ? opts.manifest : `${rangeArgs[0]}:${rangeArgs[1] || 1}`;
+    if (opts.filter.ids) rtn += ` ids=${opts.filter.ids.length}`;
+    if (opts.filter.reason) rtn += ` reason=${opts.filter.reason}`;
+    if (opts.filter.sample !== undefined) rtn += ` sample=${opts.filter.sample}`;
+    return rtn;
+}
+
+async function checkTest(args: string[], opts: ParsedOptions, parsed: ParsedCommand) {
+    const reportFile = opts.report as string | undefined;
+    const reportFormat = reportFile ? getReportFormat(reportFile, opts) : undefined;
+    const htmlDir = opts["html-report"] as string | undefined;
+    const minAccuracy = opts["min-accuracy"] as number | undefined;
+    const maxErrors = opts["max-errors"] as number | undefined;
+    const dsOpts = getDatasetOpts(opts);
+    const journalOpts = getJournalOpts(opts);
     const startTime = Date.now();
-    const cm = await CheckMgr.getInstance();
-    if (!cm) return;
+    const cm = await getCheckMgr();
+    const policies = opts.scoring !== undefined ? Consensus.parsePolicies(opts.scoring as string, cm.getTranslators()) : undefined;
     const comparer = cm.newCheckComparer();
-    let id = parseInt(argv[0] as string);
-    const count = argv.length == 2 ? parseInt(argv[1] as string) : 1;
-    const lastId = id + count - 1;
-    const iter = async function(): Promise<ocr.CheckScanResponse | undefined> {
-        if (id > lastId) return undefined;
-        return cm.scanById(id++, {comparer, logLevel: "warn"});
+    const dataset = getDataset(dsOpts, args, cm);
+    const journal = openJournal(journalOpts, comparer, cm);
+    const html = htmlDir ? new HtmlReport(htmlDir) : undefined;
+    const command = Options.commandLine(parsed);
+    const finish = async function() {
+        await cm.stop();
+        comparer.logStats();
+        const consensus = policies ? Consensus.score(comparer.getResults(), policies) : undefined;
+        if (consensus) for (const line of Consensus.format(consensus)) cm.getContext().info(line);
+        const charMetrics = opts["char-metrics"] ? CharMetrics.compute(comparer.getResults()) : undefined;
+        if (charMetrics) for (const line of CharMetrics.format(charMetrics)) cm.getContext().info(line);
+        recordModelResult(cm, comparer, describeChecks(args, dsOpts));
+        if (reportFile && reportFormat) {
+            const report = Report.build({ command, startTime, cm, comparer, consensus, charMetrics });
+            Report.write(report, reportFile, reportFormat);
+            cm.getContext().info(`Wrote ${reportFormat} report to ${reportFile}`);
+        }
+        if (html) {
+            const file = html.write({ title: "Check test report", command, stats: comparer.getStats(), results: comparer.getResults(), checkEvalData: cm.getCheckEvalData() });
+            cm.getContext().info(`Wrote HTML report to ${file}`);
+        }
+    };
+    // The MICR crops of the mismatched checks are kept for the HTML report
+    const scan = async function(entry: CheckEntry, signal: AbortSignal): Promise<ocr.CheckScanResponse> {
+        const resp = await cm.scanEntry(entry, {comparer, debug: html ? ["MICR"] : undefined, logLevel: "warn", signal});
+        const result = comparer.getResult(entry.id);
+        const image = (resp.images || []).find((i: ocr.NamedImageInfo) => i.name === "MICR");
+        if (html && image && result && !result.match) html.addImage(entry.id, Util.imageInfoToBuffer(image));
+        return resp;
     };
-    const concurrency = Util.getNum("CONCURRENCY", 25) as number;
     try {
-        const q = new Queue(iter, concurrency);
-        await q.run();
+        await runChecks(dataset, comparer, journal, scan, finish);
     } finally {
-        await cm.stop();
-        comparer.logStats();
+        await finish();
     }
     const ms = Date.now() - startTime;
     const mins = Math.floor(ms / 60000);
     const secs = Math.round((ms - (mins * 60000)) / 1000);
-    console.log(`Execution time: ${mins} minutes, ${secs} seconds`)
+    cm.getContext().info(`Execution time: ${mins} minutes, ${secs} seconds`)
+    process.exitCode = getTestExitCode(comparer, minAccuracy, maxErrors);
+}
+
+/**
+ * Return the exit code of a test run from the final statistics of the comparer: BELOW_THRESHOLD if the match
+ * percentage is below the minimum accuracy, else ITEM_FAILURES if more checks failed with an error than allowed.
+ * By default, no errors are allowed.
+ */
+function getTestExitCode(comparer: CheckComparer, minAccuracy?: number, maxErrors?: number): number {
+    const stats = comparer.getStats();
+    const ctx = cliCtx();
+    if (minAccuracy !== undefined) {
+        const accuracy = comparer.getMatchRate();
+        if (accuracy < minAccuracy) {
+            ctx.error(`Accuracy ${accuracy.toFixed(2)}% is below the minimum of ${minAccuracy}%`);
+            return ExitCode.BELOW_THRESHOLD;
+        }
+    }
+    if (stats.errors > (maxErrors || 0)) {
+        const connection = stats.connectionErrors > 0 ? `, ${stats.connectionErrors} of them connection errors` : "";
+        ctx.error(`${stats.errors} checks failed with an error${connection}; the maximum allowed is ${maxErrors || 0}`);
+        return ExitCode.ITEM_FAILURES;
+    }
+    return ExitCode.OK;
+}
+
+async function checkCompare(args: string[], opts: ParsedOptions) {
+    const maxMatchDrop = opts["max-drop"] as number | undefined;
+    const failOnNewMismatch = opts["fail-on-new-mismatch"] === true;
+    const outputFile = opts.output as string | undefined;
+    const baseline = Report.read(args[0] as string);
+    const candidate = Report.read(args[1] as string);
+    const cmp = Regression.compare(baseline, candidate, { maxMatchDrop, failOnNewMismatch });
+    for (const line of Regression.format(cmp)) console.log(line);
+    if (outputFile) fs.writeFileSync(outputFile, JSON.stringify(cmp, null, 4));
+    if (cmp.failures.length > 0) process.exitCode = ExitCode.BELOW_THRESHOLD;
 }
 
-async function checkDebug(argv: string[]) {
-    if (argv.length != 1) usage();
-    const ids = (argv[0] as string).split(",");
-    const cm = await CheckMgr.getInstance();
-    if (!cm) return;
+async function checkDebug(args: string[], opts: ParsedOptions) {
+    const dsOpts = getDatasetOpts(opts);
+    const cm = await getCheckMgr();
     const ctx = cm.getContext();
+    if (args.length == 1) dsOpts.filter.ids = (args[0] as string).split(",");
+    let dataset: Dataset;
+    if (dsOpts.manifest) {
+        dataset = getDataset(dsOpts, [], cm);
+    } else {
+        const evalData = cm.getCheckEvalData();
+        const ids = dsOpts.filter.ids || ((evalData.mismatchesByReason || {})[dsOpts.filter.reason as string] || []).map(id => id.toString());
+        dataset = Dataset.fromIds(ids).filter({ ...dsOpts.filter, checkEvalData: evalData });
+    }
     const groundTruthDir = process.env.GROUND_TRUTH_DIR;
     const debugImageDir = groundTruthDir+"/debugImages";
-    for (let id of ids) {
-        ctx.info(`Scanning check ${id}`);
-        await cm.scanById(parseInt(id), {debug: ["*"], debugImageDir, logLevel: "verbose", logFile: `check-${id}.log`});
+    for (const entry of dataset.entries) {
+        ctx.info(`Scanning check ${entry.id}`);
+        await cm.scanEntry(entry, {debug: ["*"], debugImageDir, logLevel: "verbose", logFile: `check-${entry.id}.log`});
     }
-    await cm.writeDebugPage("Debug Images", ids, debugImageDir);
+    await cm.writeDebugPage("Debug Images", dataset.entries.map(e => e.id), debugImageDir);
     await cm.stop();
 }
 
-async function checkPreprocess(argv: string[]) {
-    if (argv.length < 2 || argv.length > 3) usage();
-    let outputDir = argv[0] as string;
-    let id = parseInt(argv[1] as string);
-    const count = argv.length == 3 ? parseInt(argv[2] as string) : 1;
-    const lastId = id + count - 1;
-    const cm = await CheckMgr.getInstance();
-    if (!cm) return;
+/**
+ * Triage the checks of a run report, or else scan the checks and triage them.  The check evaluation data file
+ * is updated after each decision.
+ */
+async function checkTriage(args: string[], opts: ParsedOptions) {
+    const file = process.env.CHECK_EVAL_DATA;
+    if (!file) throw new ConfigError("Set CHECK_EVAL_DATA or --check-eval-data to the check evaluation data file to update");
+    const evalData = EvalDataFile.open(file);
+    const reportFile = opts.report as string | undefined;
+    let results: CheckResult[];
+    let checksDir = CheckMgr.defaultChecksDir();
+    if (reportFile) {
+        const report = Report.read(reportFile);
+        results = report.checks;
+        checksDir = report.config.checksDir || checksDir;
+    } else {
+        const dsOpts = getDatasetOpts(opts);
+        const cm = await getCheckMgr();
+        const comparer = cm.newCheckComparer();
+        const dataset = getDataset(dsOpts, args, cm);
+        const finish = async function() {
+            await cm.stop();
+        };
+        try {
+            await runChecks(dataset, comparer, undefined, (entry, signal) => cm.scanEntry(entry, {comparer, logLevel: "warn", signal}), finish);
+        } finally {
+            await finish();
+        }
+        results = comparer.getResults();
+    }
+    const items = Triage.select(results, evalData);
+    const ctx = cliCtx();
+    if (items.length === 0) {
+        ctx.info("There are no mismatches to evaluate or matches to reevaluate");
+        return;
+    }
+    const debugImageDir = process.env.GROUND_TRUTH_DIR ? path.join(process.env.GROUND_TRUTH_DIR, "debugImages") : undefined;
+    const triage = new Triage(evalData, { checksDir, debugImageDir });
+    const summary = await triage.run(items);
+    ctx.info(`Assigned ${summary.reasons} reasons, corrected ${summary.corrections} checks, cleared ${summary.cleared} and skipped ${summary.skipped}; updated ${evalData.getFile()}`);
+}
+
+/**
+ * Validate the files of the checks, then scan the valid checks if asked in order to suggest corrections of
+ * their ground truth.  The issues are printed as a table and the run fails if any check has an error.
+ */
+async function checkValidate(args: string[], opts: ParsedOptions) {
+    const reportFile = opts.report as string | undefined;
+    const fixFile = opts.fix as string | undefined;
+    const dataset = getDataset(getDatasetOpts(opts), args);
+    const validator = new DatasetValidator({ checksDir: CheckMgr.defaultChecksDir(), correctX9: CheckMgr.readCheckEvalData().correctX9 });
+    const scannable: CheckEntry[] = [];
+    for (const entry of dataset.entries) {
+        const v = await validator.validate(entry);
+        if (v.scannable) scannable.push(entry);
+    }
+    const ctx = cliCtx();
+    if (opts.scan && scannable.length > 0) {
+        const cm = await getCheckMgr();
+        if (cm.getTranslators().length < 2) ctx.warn("Suggestions require the agreement of at least two translators");
+        const comparer = cm.newCheckComparer();
+        const finish = async function() {
+            await cm.stop();
+        };
+        try {
+            await runChecks(new Dataset(scannable), comparer, undefined, (entry, signal) => cm.scanEntry(entry, {comparer, logLevel: "warn", signal}), finish);
+        } finally {
+            await finish();
+        }
+        for (const result of comparer.getResults()) validator.suggest(result);
+        for (const e of comparer.getErrors()) validator.addIssue({ id: e.id, severity: "error", code: "scan-failed", message: `The scan failed: ${e.error}` });
+    }
+    const report = validator.getReport();
+    if (report.issues.length > 0) printTable(["id", "severity", "code", "message"], report.issues.map(i => [i.id, i.severity, i.code, i.message]));
+    if (report.suggestions.length > 0) {
+        if (report.issues.length > 0) console.log("");
+        printTable(["id", "ground truth", "suggested correctX9", "reason"], report.suggestions.map(s => [s.id, s.current, s.micrLine, s.reason]));
+    }
+    const sum = report.summary;
+    ctx.info(`Validated ${sum.checks} checks: valid=${sum.valid}, withErrors=${sum.withErrors}, withWarnings=${sum.withWarnings}, duplicates=${sum.duplicates}, suggestions=${sum.suggestions}`);
+    if (reportFile) {
+        fs.writeFileSync(reportFile, JSON.stringify(report, null, 4));
+        ctx.info(`Wrote the validation report to ${reportFile}`);
+    }
+    if (fixFile && report.suggestions.length > 0) {
+        const evalData = EvalDataFile.open(fixFile);
+        for (const s of report.suggestions) evalData.correct(s.id, s.micrLine);
+        evalData.save();
+        ctx.info(`Added ${report.suggestions.length} correctX9 entries to ${fixFile}`);
+    }
+    if (sum.withErrors > 0) process.exitCode = ExitCode.ITEM_FAILURES;
+}
+
+async function checkPreprocess(args: string[], opts: ParsedOptions) {
+    const dsOpts = getDatasetOpts(opts);
+    const journalOpts = getJournalOpts(opts);
+    let outputDir = args[0] as string;
+    const cm = await getCheckMgr();
     const comparer = cm.newCheckComparer();
-    const iter = async function(): Promise<ocr.CheckScanResponse | undefined> {
-        if (id > lastId) return undefined;
-        return cm.preprocessById(id++, comparer, outputDir);
+    const dataset = getDataset(dsOpts, args.slice(1), cm);
+    const journal = openJournal(journalOpts, comparer, cm);
+    const finish = async function() {
+        await cm.stop();
+        comparer.logStats();
+    };
+    try {
+        await runChecks(dataset, comparer, journal, (entry, signal) => cm.preprocessEntry(entry, comparer, outputDir, signal), finish);
+    } finally {
+        await finish();
+    }
+    if (comparer.getStats().errors > 0) process.exitCode = ExitCode.ITEM_FAILURES;
+}
+
+/**
+ * Run a job for each check in the dataset which is not already complete in the journal, keeping CONCURRENCY
+ * jobs in flight.  A job which fails after its retries, including by timing out, is recorded as an error and
+ * the run carries on.  The outcome of each check is appended to the journal, if any, so that the run may be
+ * resumed.  If the run is interrupted, the finish function is called before exiting.
+ */
+async function runChecks(dataset: Dataset, comparer: CheckComparer, journal: Journal | undefined,
+                         job: (entry: CheckEntry, signal: AbortSignal) => Promise<ocr.CheckScanResponse>, finish: () => Promise<void>) {
+    const entries = journal ? dataset.entries.filter(e => !journal.isCompleted(e.id)) : dataset.entries;
+    let next = 0;
+    const nextJob = function(): QueueJob<ocr.CheckScanResponse> | undefined {
+        const entry = entries[next++];
+        if (!entry) return undefined;
+        return {
+            name: `check ${entry.id}`,
+            run: (signal: AbortSignal) => job(entry, signal),
+            done: () => {
+                if (!journal) return;
+                const result = comparer.getResult(entry.id);
+                const outcome = result && result.match ? "match" : "mismatch";
+                journal.append({ id: entry.id, outcome, time: new Date().toISOString(), result });
+            },
+            failed: (e: Error) => {
+                const error = e.message;
+                comparer.recordError(entry.id, error, e instanceof ConnectionError ? "connection" : undefined);
+                if (journal) journal.append({ id: entry.id, outcome: "error", time: new Date().toISOString(), error });
+            },
+        };
     };
-    const concurrency = Util.getNum("CONCURRENCY", 25) as number;
-    const q = new Queue(iter, concurrency);
-    await q.run();
+    const onInterrupt = async function() {
+        console.error("Interrupted; stopping the run");
+        if (journal) console.error(`Resume the run with --resume ${journal.getFile()}`);
+        await finish();
+        process.exit(130);
+    };
+    const ctx = cliCtx();
+    const total = entries.length;
+    const onProgress = function(p: QueueProgress) {
+        const finished = p.completed + p.failed;
+        const eta = p.rate > 0 ? Math.round((total - finished) / p.rate) : undefined;
+        ctx.info(`Progress: ${finished}/${total} checks, failed=${p.failed}, retried=${p.retried}, inFlight=${p.inFlight}, rate=${p.rate.toFixed(2)}/sec${eta !== undefined ? `, eta=${eta} sec` : ""}`);
+    };
+    process.once("SIGINT", onInterrupt);
+    try {
+        const q = new Queue(nextJob, { ...getQueueOpts(), onProgress });
+        await q.run();
+    } finally {
+        process.removeListener("SIGINT", onInterrupt);
+    }
+}
+
+/**
+ * Get the options of the queue which schedules checks from the settings.
+ */
+function getQueueOpts(): QueueOpts {
+    return {
+        max: Util.getNum("CONCURRENCY", 25) as number,
+        timeout: (Util.getNum("JOB_TIMEOUT", 0) as number) * 1000,
+        retries: Util.getNum("JOB_RETRIES", 0),
+        backoff: Util.getNum("JOB_BACKOFF", 1000),
+        progressInterval: (Util.getNum("PROGRESS_INTERVAL", 30) as number) * 1000,
+    };
+}
+
+/**
+ * Return true if the arguments of "check scan" are a <start> <end> range of checks in the checks directory
+ * rather than paths.
+ */
+function isScanRange(args: string[]): boolean {
+    return args.length === 2 && args.every(a => /^\d+$/.test(a) && !fs.existsSync(a));
+}
+
+/**
+ * Get the augmentations given by --augment, validating them before any work is done.
+ */
+function getAugmentConfig(opts: ParsedOptions): AugmentConfig | undefined {
+    const spec = opts.augment as string | undefined;
+    if (!spec) return undefined;
+    try {
+        const config = Augmenter.parse(spec);
+        new Augmenter(config, 0);
+        return config;
+    } catch (e: any) {
+        if (e instanceof ConfigError) throw e;
+        throw new UsageError(`Invalid value for --augment: ${e.message}`);
+    }
+}
+
+/**
+ * Get the journal options: a new journal or the journal of a run to resume.
+ */
+function getJournalOpts(opts: ParsedOptions): { file?: string, resume: boolean } {
+    const journal = opts.journal as string | undefined;
+    const resume = opts.resume as string | undefined;
+    return { file: resume || journal, resume: resume !== undefined };
+}
+
+function getReportFormat(file: string, opts: ParsedOptions): ReportFormat {
+    try {
+        return Report.getFormat(file, opts["report-format"] as string | undefined);
+    } catch (e: any) {
+        throw new UsageError(e.message);
+    }
+}
+
+/**
+ * Open the journal, if any, restoring the comparer state from the checks completed by a previous run.
+ */
+function openJournal(opts: { file?: string, resume: boolean }, comparer: CheckComparer, cm: CheckMgr): Journal | undefined {
+    if (!opts.file) return undefined;
+    const journal = Journal.open(opts.file, opts.resume);
+    if (opts.resume) {
+        const completed = journal.getCompleted();
+        for (const record of completed) {
+            if (record.result) comparer.restore(record.result);
+        }
+        cm.getContext().info(`Resuming from ${opts.file}; skipping ${completed.length} completed checks`);
+    }
+    return journal;
+}
+
+/**
+ * Get the dataset options: a manifest file and the filters over the checks.
+ */
+function getDatasetOpts(opts: ParsedOptions): { manifest?: string, filter: DatasetFilter } {
+    const manifest = opts.manifest as string | undefined;
+    const filter: DatasetFilter = {};
+    const ids = opts.ids as string | undefined;
+    if (ids !== undefined) {
+        const list = ids.startsWith("@") ? fs.readFileSync(ids.substring(1)).toString().split(/[\r\n,]+/) : ids.split(",");
+        filter.ids = list.map(id => id.trim()).filter(id => id.length > 0);
+    }
+    filter.reason = opts.reason as string | undefined;
+    filter.sample = opts.sample as number | undefined;
+    if (filter.sample !== undefined && filter.sample < 0) throw new UsageError(`Invalid value for --sample: ${filter.sample}`);
+    filter.seed = opts.seed as number | undefined;
+    return { manifest, filter };
+}
+
+/**
+ * Get the filtered dataset from either the manifest or the <start> [<count>] range arguments.
+ */
+function getDataset(opts: { manifest?: string, filter: DatasetFilter }, rangeArgs: string[], cm?: CheckMgr): Dataset {
+    let dataset: Dataset;
+    if (opts.manifest) {
+        dataset = Dataset.fromManifest(opts.manifest);
+    } else {
+        const start = parseInt(rangeArgs[0] as string);
+        const count = rangeArgs.length == 2 ? parseInt(rangeArgs[1] as string) : 1;
+        dataset = Dataset.fromRange(start, count);
+    }
+    const filter = opts.filter;
+    if (filter.sample !== undefined && filter.seed === undefined) {
+        filter.seed = Date.now() % 2147483647;
+        (cm ? cm.getContext() : cliCtx()).info(`Sampling with seed ${filter.seed}`);
+    }
+    if (filter.reason) filter.checkEvalData = CheckMgr.readCheckEvalData();
+    return dataset.filter(filter);
+}
+
+async function correctionsList() {
+    const set = CorrectionSet.open();
+    const groups = set.groups();
+    if (groups.length === 0) {
+        cliCtx().info(`There are no corrections in ${set.getDir()}; scan with ACTUAL set to store them`);
+        return;
+    }
+    const columns = ["value", "contours", "samples", "unique", "duplicates", "conflicts", "rejected"];
+    const rows = groups.map(g => [g.value, g.contours, g.samples, g.unique, g.duplicates, g.conflicts, g.rejected].map(String));
+    printTable(columns, rows);
+    const conflicts = set.conflicts();
+    if (conflicts.length > 0) {
+        console.log("");
+        console.log("Conflicts, which are neither pruned nor exported until the samples with the wrong value are rejected:");
+        printTable(["name", "value", "contours", "sha256", "same image as"], conflicts.map(s => [
+            s.name, s.value, String(s.contours), s.sha256.substring(0, 12), (s.conflictsWith as string[]).join(", "),
+        ]));
+    }
+}
+
+async function correctionsShow(args: string[]) {
+    const set = CorrectionSet.open();
+    const samples = set.select(args[0]);
+    if (samples.length === 0) throw new ConfigError(`There are no samples of '${args[0]}' in ${set.getDir()}`);
+    printTable(["name", "value", "contours", "sha256", "size", "status"], samples.map(s => [
+        s.name, s.value, String(s.contours), s.sha256.substring(0, 12), String(s.size), sampleStatus(set, s),
+    ]));
+}
+
+async function correctionsReview(args: string[], opts: ParsedOptions) {
+    const set = CorrectionSet.open();
+    const samples = set.select(args[0]).filter(s => s.rejected === (opts.rejected === true));
+    const ctx = cliCtx();
+    if (samples.length === 0) {
+        ctx.info("There are no samples to review");
+        return;
+    }
+    const summary = await new CorrectionReview(set).run(samples);
+    ctx.info(`Kept ${summary.kept} samples, rejected ${summary.rejected} and skipped ${summary.skipped}`);
+}
+
+async function correctionsPrune(args: string[], opts: ParsedOptions) {
+    const set = CorrectionSet.open();
+    // Both kinds of samples are pruned unless one is chosen
+    const both = !opts.duplicates && !opts.rejected;
+    const pruned = set.prune({ duplicates: both || opts.duplicates === true, rejected: both || opts.rejected === true, dryRun: opts["dry-run"] === true });
+    for (const s of pruned) console.log(s.file);
+    cliCtx().info(`${opts["dry-run"] ? "Would delete" : "Deleted"} ${pruned.length} samples from ${set.getDir()}`);
+}
+
+async function correctionsExport(args: string[]) {
+    const set = CorrectionSet.open();
+    const dir = args[0] as string;
+    const samples = set.export(dir);
+    cliCtx().info(`Exported ${samples.length} samples to ${dir} with labels in ${path.join(dir, CorrectionSet.LABELS_FILE)}`);
+}
+
+function sampleStatus(set: CorrectionSet, s: CorrectionSample): string {
+    if (s.rejected) return "rejected";
+    if (s.conflictsWith) return `conflicts with ${s.conflictsWith.map(name => `${name}, which is '${set.get(name)?.value}'`).join("; ")}`;
+    if (!s.duplicateOf) return "";
+    return `duplicate of ${s.duplicateOf}`;
+}
+
+function printTable(columns: string[], rows: string[][]) {
+    const widths = columns.map((_, i) => Math.max(...[columns, ...rows].map(r => (r[i] as string).length)));
+    for (const row of [columns, ...rows]) console.log(row.map((v, i) => v.padEnd(widths[i] as number)).join("  ").trimEnd());
+}
+
+async function cacheStats() {
+    const cache = ScanCache.open();
+    const generations = cache.stats();
+    if (generations.length === 0) {
+        cliCtx().info(`The scan cache in ${cache.getDir()} is empty`);
+        return;
+    }
+    const columns = ["generation", "entries", "size", "hits", "misses", "last used", "traineddata", "sdk", "url"];
+    const rows = generations.map(g => {
+        const inputs = g.inputs;
+        return [g.id, `${g.entries}`, `${(g.bytes / (1024 * 1024)).toFixed(1)} MB`, `${g.hits}`, `${g.misses}`, g.lastUsed.substring(0, 19).replace("T", " "),
+            inputs.traineddata ? inputs.traineddata.substring(0, 12) : "", inputs.sdkVersion, inputs.url || ""];
+    });
+    printTable(columns, rows);
+}
+
+async function cacheClear(args: string[]) {
+    const cache = ScanCache.open();
+    const count = cache.clear(args[0]);
+    cliCtx().info(`Deleted ${count} generation${count === 1 ? "" : "s"} of the scan cache in ${cache.getDir()}`);
+}
+
+/**
+ * Serve scans until interrupted, then wait for the scans in flight to finish.
+ */
+async function serve(args: string[], opts: ParsedOptions) {
+    if (process.env.URL) throw new ConfigError("ocr serve scans locally; unset URL");
+    const port = (opts.port as number | undefined) ?? 3000;
+    const serverOpts: ServerOpts = {
+        port,
+        host: opts.host as string | undefined,
+        maxBodySize: Math.round(((opts["max-body-size"] as number | undefined) ?? 10) * 1024 * 1024),
+        maxBatchSize: (opts["max-batch-size"] as number | undefined) ?? 100,
+        maxConcurrency: (opts["max-concurrency"] as number | undefined) ?? Util.getNum("CONCURRENCY", 25) as number,
+        maxQueue: (opts["max-queue"] as number | undefined) ?? 100,
+    };
+    // A batch is only admitted if all of its scans can run or wait
+    if (serverOpts.maxBatchSize > serverOpts.maxConcurrency + serverOpts.maxQueue) {
+        throw new ConfigError(`The maximum batch size ${serverOpts.maxBatchSize} is larger than the maximum concurrency ${serverOpts.maxConcurrency} plus the maximum queue ${serverOpts.maxQueue}`);
+    }
+    const cm = await getCheckMgr();
+    const server = new ScanServer(cm, serverOpts);
+    const ctx = cliCtx();
+    let listening: number;
+    try {
+        listening = await server.start();
+    } catch (e: any) {
+        await cm.stop();
+        throw new ConfigError(`Failed to listen on port ${port}: ${e.message}`);
+    }
+    ctx.info(`Serving scans on port ${listening}; set URL=http://localhost:${listening} to use it`);
+    await new Promise<void>(resolve => {
+        const onSignal = () => {
+            process.removeListener("SIGINT", onSignal);
+            process.removeListener("SIGTERM", onSignal);
+            resolve();
+        };
+        process.on("SIGINT", onSignal);
+        process.on("SIGTERM", onSignal);
+    });
+    ctx.info("Stopping; waiting for the scans in flight to finish");
+    await server.stop();
     await cm.stop();
+    ctx.info(`Served ${JSON.stringify(server.getMetrics())}`);
 }
 
 /**
@@ -259,16 +1321,15 @@ async function checkPreprocess(argv: string[]) {
  * the name of the directory.  For each file in the subdirectory, base64 encode the contents and store it as the
  * value of an object, where the key of the value is the file name.
  */
-async function buildFiles(argv: string[]) {
-    if (argv.length > 1) usage();
-    const dir = argv.length == 1 ? argv[0] as string : ".";
+async function buildFiles(args: string[]) {
+    const dir = args.length == 1 ? args[0] as string : ".";
     ocr.FSMgr.build("files", `${dir}/files.ts`, new MyFileSystem());
 }
 
 function logErr(e: any) {
-    if (e.response && e.response.data) console.log(`Error Response: ${JSON.stringify(e.response.data,null,4)}`);
-    else if (e.stack) console.log(`Caught Exception: ${e.stack}`);
-    else console.log(`Exception: ${JSON.stringify(e)}`);
+    if (e.response && e.response.data) console.error(`Error Response: ${JSON.stringify(e.response.data,null,4)}`);
+    else if (e.stack) console.error(`Caught Exception: ${e.stack}`);
+    else console.error(`Exception: ${JSON.stringify(e)}`);
 }
 
 class MyFileSystem implements ocr.OSFileSystem {
@@ -0,0 +1,177 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import { Align, AlignOp } from './align.js';
+import { CheckResult } from './check.js';
+
+/**
+ * The characters of a MICR line in the T/U/A/D notation: the digits, and the transit, on-us, amount and dash
+ * symbols.  In a confusion matrix, "?" stands for any other character and "-" for no character, so that an
+ * expected "-" is an insertion and an actual "-" is a deletion.
+ */
+export const MICR_CHARS = ["0", "1", "2", "3", "4", "5", "6", "7", "8", "9", "T", "U", "A", "D"];
+
+const CONFUSION_LABELS = [...MICR_CHARS, "?", "-"];
+
+/**
+ * The fields of a MICR line: the auxiliary on-us field before the transit field, the transit field between
+ * the transit symbols, and the on-us and amount fields after it.
+ */
+export const MICR_FIELDS = ["auxiliaryOnUs", "transit", "onUs", "amount"];
+
+/**
+ * The edits which turn the expected characters into the characters read, and the character error rate,
+ * which is the percentage of the number of edits to the number of expected characters.
+ */
+export interface EditCounts {
+    chars: number;
+    matches: number;
+    substitutions: number;
+    insertions: number;
+    deletions: number;
+    cer: number;
+}
+
+export interface TranslatorCharMetrics extends EditCounts {
+    checks: number;
+    byField: {[field:string]: EditCounts};
+    // The number of times each expected character was read as each actual character, omitting zeros
+    confusion: {[expected:string]: {[actual:string]: number}};
+}
+
+export interface CharMetricsStats {
+    translators: {[name:string]: TranslatorCharMetrics};
+}
+
+export class CharMetrics {
+
+    private static readonly KINDS: {[op in AlignOp["op"]]: keyof EditCounts} = {
+        equal: "matches",
+        sub: "substitutions",
+        ins: "insertions",
+        del: "deletions",
+    };
+
+    /**
+     * Align the MICR line read by each translator with the expected MICR line of each check and count the
+     * edits and confusions.  Whitespace is ignored, since the spacing of the line is not part of its value.
+     */
+    public static compute(results: CheckResult[]): CharMetricsStats {
+        const translators: {[name:string]: TranslatorCharMetrics} = {};
+        for (const r of results) {
+            if (r.expectedMicrLine === undefined) continue;
+            const expected = Align.normalize(r.expectedMicrLine);
+            const fields = CharMetrics.fieldsOf(expected);
+            for (const [name, tr] of Object.entries(r.translators)) {
+                const m = translators[name] || (translators[name] = CharMetrics.newMetrics());
+                m.checks++;
+                const actual = Align.normalize(tr.micrLine || "");
+                m.chars += expected.length;
+                for (let i = 0; i < expected.length; i++) CharMetrics.field(m, fields[i] as string).chars++;
+                // The index of the next expected character; an insertion belongs to the field of the character it follows
+                let pos = 0;
+                for (const a of Align.align(expected, actual)) {
+                    const field = CharMetrics.field(m, a.op === "ins" ? fields[pos - 1] || fields[0] || "onUs" : fields[pos++] as string);
+                    const kind = CharMetrics.KINDS[a.op];
+                    m[kind]++;
+                    field[kind]++;
+                    const e = CharMetrics.label(a.expected);
+                    const row = m.confusion[e] || (m.confusion[e] = {});
+                    const c = CharMetrics.label(a.actual);
+                    row[c] = (row[c] || 0) + 1;
+                }
+            }
+        }
+        for (const m of Object.values(translators)) {
+            CharMetrics.setCer(m);
+            for (const f of Object.values(m.byField)) CharMetrics.setCer(f);
+        }
+        return { translators };
+    }
+
+    /**
+     * Format the metrics as human-readable lines: the edits overall and by field, the most frequent
+     * confusions and the confusion matrix of each translator.
+     */
+    public static format(stats: CharMetricsStats): string[] {
+        const lines: string[] = [];
+        const counts = (c: EditCounts) => `CER=${c.cer.toFixed(2)}% (chars=${c.chars}, substitutions=${c.substitutions}, insertions=${c.insertions}, deletions=${c.deletions})`;
+        for (const [name, m] of Object.entries(stats.translators)) {
+            lines.push(`Character metrics of ${name} over ${m.checks} checks: ${counts(m)}`);
+            for (const field of MICR_FIELDS) {
+                const f = m.byField[field];
+                if (f && (f.chars > 0 || f.insertions > 0)) lines.push(`    field ${field}: ${counts(f)}`);
+            }
+            const confusions: [string, number][] = [];
+            for (const [e, row] of Object.entries(m.confusion)) {
+                for (const [a, n] of Object.entries(row)) if (e !== a) confusions.push([`${e} as ${a}`, n]);
+            }
+            confusions.sort((x, y) => y[1] - x[1]);
+            if (confusions.length > 0) lines.push(`    top confusions: ${confusions.slice(0, 10).map(([k, n]) => `${k} (${n})`).join(", ")}`);
+            lines.push(...CharMetrics.formatMatrix(m.confusion).map(l => `    ${l}`));
+        }
+        return lines;
+    }
+
+    /**
+     * Format a confusion matrix with a row for each expected character and a column for each actual character,
+     * omitting the rows and columns which are all zeros.
+     */
+    private static formatMatrix(confusion: {[expected:string]: {[actual:string]: number}}): string[] {
+        const rows = CONFUSION_LABELS.filter(e => confusion[e]);
+        const cols = CONFUSION_LABELS.filter(a => rows.some(e => (confusion[e] as {[actual:string]: number})[a]));
+        if (rows.length === 0) return [];
+        const cells = rows.map(e => cols.map(a => String((confusion[e] as {[actual:string]: number})[a] || "")));
+        const width = Math.max(3, ...cells.flat().map(c => c.length));
+        const lines = [`exp\\act ${cols.map(a => a.padStart(width)).join(" ")}`];
+        rows.forEach((e, i) => lines.push(`${e.padEnd(7)} ${(cells[i] as string[]).map(c => c.padStart(width)).join(" ")}`.trimEnd()));
+        return lines;
+    }
+
+    /**
+     * Return the field of each character of an expected MICR line.  The transit symbols belong to the transit
+     * field and the amount symbols to the amount field.
+     */
+    private static fieldsOf(line: string): string[] {
+        const t1 = line.indexOf("T");
+        const t2 = t1 >= 0 ? line.indexOf("T", t1 + 1) : -1;
+        const fields: string[] = [];
+        let inAmount = false;
+        for (let i = 0; i < line.length; i++) {
+            if (t1 >= 0 && i < t1) {
+                fields.push("auxiliaryOnUs");
+            } else if (t1 >= 0 && (t2 < 0 || i <= t2)) {
+                fields.push("transit");
+            } else if (line[i] === "A") {
+                fields.push("amount");
+                inAmount = !inAmount;
+            } else {
+                fields.push(inAmount ? "amount" : "onUs");
+            }
+        }
+        return fields;
+    }
+
+    private static label(c?: string): string {
+        if (c === undefined) return "-";
+        return MICR_CHARS.indexOf(c) >= 0 ? c : "?";
+    }
+
+    private static field(m: TranslatorCharMetrics, field: string): EditCounts {
+        return m.byField[field] || (m.byField[field] = CharMetrics.newCounts());
+    }
+
+    private static setCer(c: EditCounts) {
+        const edits = c.substitutions + c.insertions + c.deletions;
+        c.cer = c.chars > 0 ? (edits * 100) / c.chars : 0;
+    }
+
+    private static newCounts(): EditCounts {
+        return { chars: 0, matches: 0, substitutions: 0, insertions: 0, deletions: 0, cer: 0 };
+    }
+
+    private static newMetrics(): TranslatorCharMetrics {
+        return { ...CharMetrics.newCounts(), checks: 0, byField: {}, confusion: {} };
+    }
+
+}
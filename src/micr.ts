@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+import { X9 } from './check.js';
+import { ConfigError } from './options.js';
+
+/**
+ * The symbols of the E-13B MICR character set as transcribed in ground truth files, such as files/micr_ref.gt.txt.
+ */
+export type MicrSymbol = "T" | "U" | "A" | "D";
+
+export const MICR_SYMBOLS: {[s in MicrSymbol]: string} = {
+    T: "transit",
+    U: "on-us",
+    A: "amount",
+    D: "dash",
+};
+
+/**
+ * A font in which MICR lines may be rendered for training.
+ */
+export interface MicrFont {
+    name: string;
+    // The font file in the fonts directory below TESSDATA_PREFIX
+    file: string;
+    // The family name with which the font is registered for drawing
+    family: string;
+    // The glyph which draws each symbol, or null if the font has no such glyph, in which case the symbol
+    // is neither drawn nor transcribed
+    glyphs: {[s in MicrSymbol]: string | null};
+    // The default point size
+    size: number;
+}
+
+/**
+ * The mapping of each font's glyphs to the T/U/A/D transcription.  GnuMICR draws the symbols with the letters
+ * A to D, while OCR-A has no MICR symbols so only the digits of each field are drawn.
+ */
+export const MICR_FONTS: {[name: string]: MicrFont} = {
+    micr: {
+        name: "micr",
+        file: "GnuMICR.ttf",
+        family: "MICR",
+        glyphs: { T: "A", U: "C", A: "B", D: "D" },
+        size: 16,
+    },
+    "ocr-a": {
+        name: "ocr-a",
+        file: "OCRA.ttf",
+        family: "OCRA",
+        glyphs: { T: null, U: null, A: null, D: null },
+        size: 16,
+    },
+};
+
+export const MICR_FONT_NAMES = Object.keys(MICR_FONTS);
+
+/**
+ * Converts MICR lines between the T/U/A/D transcription and the glyphs of a font.
+ */
+export class Micr {
+
+    public static getFont(name: string): MicrFont {
+        const font = MICR_FONTS[name];
+        if (!font) throw new ConfigError(`Invalid font '${name}'; expecting one of ${MICR_FONT_NAMES.join(", ")}`);
+        return font;
+    }
+
+    /**
+     * Return the path of a font's file, which is either given explicitly or found in the fonts directory.
+     */
+    public static getFontFile(font: MicrFont, file?: string): string {
+        file = file || path.join(process.env.TESSDATA_PREFIX || '', 'fonts', font.file);
+        if (!fs.existsSync(file)) throw new ConfigError(`Font file ${file} for font '${font.name}' does not exist`);
+        return file;
+    }
+
+    /**
+     * Convert a transcribed line to the text drawn in a font.  Symbols without a glyph are dropped.
+     */
+    public static toGlyphs(line: string, font: MicrFont): string {
+        let rtn = "";
+        for (const c of line) {
+            if (c in MICR_SYMBOLS) rtn += font.glyphs[c as MicrSymbol] ?? "";
+            else rtn += c;
+        }
+        return rtn;
+    }
+
+    /**
+     * Convert text drawn in a font to its transcription.
+     */
+    public static fromGlyphs(text: string, font: MicrFont): string {
+        const symbols: {[glyph: string]: string} = {};
+        for (const symbol in font.glyphs) {
+            const glyph = font.glyphs[symbol as MicrSymbol];
+            if (glyph) symbols[glyph] = symbol;
+        }
+        let rtn = "";
+        for (const c of text) rtn += symbols[c] ?? c;
+        return rtn;
+    }
+
+    /**
+     * Return the transcription of a line as drawn in a font, which omits the symbols the font can't draw.
+     */
+    public static transcribe(line: string, font: MicrFont): string {
+        return Micr.fromGlyphs(Micr.toGlyphs(line, font), font);
+    }
+
+    /**
+     * Return the MICR line transcription of the fields of an X9 record: the auxiliary on-us field, if any,
+     * followed by the routing number and the on-us field whose "/" separators are on-us symbols.
+     */
+    public static fromX9(x9: X9): string {
+        const route = x9.payorBankRoutingNumber + x9.payorBankCheckDigit;
+        const onUs = x9.onUs.replace('/', 'U');
+        const auxOnUs = x9.auxiliaryOnUs;
+        const line = auxOnUs ? `U${auxOnUs}U ` : "";
+        return line + `T${route}T${onUs}`;
+    }
+
+}
@@ -0,0 +1,270 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckResult } from './check.js';
+import { ConfigError } from './options.js';
+import { TrainingArchive, TrainingParams, TrainingRecord } from './training.js';
+import { Util } from './util.js';
+
+/**
+ * The traineddata with which local scans are performed: the SDK loads "<font>.traineddata" from "dir".
+ */
+export interface ScanModel {
+    name: string;
+    dir: string;
+    font: string;
+    sha256?: string;
+}
+
+/**
+ * The outcome of a test of a registered model over a set of checks.
+ */
+export interface ModelResult {
+    time: string;
+    // The checks tested, such as "1:1000" for a range
+    checks: string;
+    // The number of checks compared with their ground truth, which excludes those which failed with an error
+    total: number;
+    matches: number;
+    errors: number;
+    // The match rate, in percent
+    accuracy: number;
+}
+
+/**
+ * A registered traineddata file.
+ */
+export interface ModelEntry {
+    name: string;
+    // The tesseract model name, which is the name of the traineddata file without its extension
+    font: string;
+    sha256: string;
+    size: number;
+    added: string;
+    // The file or training archive directory from which the model was added
+    source: string;
+    // The parameters of the training run which created the model, if known
+    params?: TrainingParams;
+    results: ModelResult[];
+}
+
+interface RegistryFile {
+    active?: string;
+    models: {[name:string]: ModelEntry};
+}
+
+/**
+ * A local registry of traineddata files, each stored in its own directory of the models directory.
+ * The active model is used by local scans unless ACTIVE_MODEL selects another.
+ */
+export class ModelRegistry {
+
+    public static readonly FILE = "registry.json";
+
+    private dir: string;
+    private data: RegistryFile;
+
+    public static open(dir?: string): ModelRegistry {
+        return new ModelRegistry(dir || process.env.MODELS_DIR || path.join(process.env.HOME || "", ".fin-ocr", "models"));
+    }
+
+    private constructor(dir: string) {
+        this.dir = dir;
+        const file = path.join(dir, ModelRegistry.FILE);
+        this.data = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file).toString()) : { models: {} };
+    }
+
+    public list(): ModelEntry[] {
+        return Object.values(this.data.models).sort((a, b) => a.added.localeCompare(b.added));
+    }
+
+    public get(name: string): ModelEntry {
+        const entry = this.data.models[name];
+        if (!entry) throw new ConfigError(`Model '${name}' is not registered; see 'ocr model list'`);
+        return entry;
+    }
+
+    /**
+     * Return true if a model is a registered model with the same traineddata.
+     */
+    public isRegistered(model: ScanModel): boolean {
+        const entry = this.data.models[model.name];
+        return entry !== undefined && entry.sha256 === model.sha256;
+    }
+
+    public getActiveName(): string | undefined {
+        return this.data.active;
+    }
+
+    /**
+     * Return the model with which local scans are performed: the model selected by ACTIVE_MODEL or else the
+     * active model, if any.
+     */
+    public getScanModel(): ScanModel | undefined {
+        const name = process.env.ACTIVE_MODEL || this.data.active;
+        if (!name) return undefined;
+        return this.toScanModel(this.get(name));
+    }
+
+    public toScanModel(entry: ModelEntry): ScanModel {
+        return { name: entry.name, dir: path.join(this.dir, entry.name), font: entry.font, sha256: entry.sha256 };
+    }
+
+    /**
+     * Register a traineddata file, or the traineddata of a training run archived by "ocr training run" along
+     * with its parameters and test result.  The other traineddata files of TESSDATA_PREFIX are linked into the
+     * directory of the model, since it becomes the TESSDATA_PREFIX of the scans with the model.
+     */
+    public add(name: string, source: string, font?: string): ModelEntry {
+        if (this.data.models[name]) throw new Error(`Model '${name}' is already registered`);
+        if (!/^[\w.-]+$/.test(name)) throw new Error(`Invalid model name '${name}'; use letters, digits, '.', '_' and '-'`);
+        if (!fs.existsSync(source)) throw new Error(`${source} does not exist`);
+        let file = source;
+        let record: TrainingRecord | undefined;
+        if (fs.statSync(source).isDirectory()) {
+            const recordFile = path.join(source, TrainingArchive.RECORD_FILE);
+            if (!fs.existsSync(recordFile)) throw new Error(`${source} is not a training archive directory; ${TrainingArchive.RECORD_FILE} was not found`);
+            record = JSON.parse(fs.readFileSync(recordFile).toString()) as TrainingRecord;
+            if (!record.traineddata) throw new Error(`The training run archived in ${source} did not produce traineddata`);
+            file = path.join(source, record.traineddata);
+        }
+        font = font || path.basename(file).replace(/\.traineddata$/, "");
+        const modelDir = path.join(this.dir, name);
+        fs.mkdirSync(modelDir, { recursive: true });
+        fs.copyFileSync(file, path.join(modelDir, `${font}.traineddata`));
+        Util.linkTraineddata(process.env.TESSDATA_PREFIX || "", modelDir, font);
+        const entry: ModelEntry = {
+            name,
+            font,
+            sha256: ModelRegistry.sha256(file),
+            size: fs.statSync(file).size,
+            added: new Date().toISOString(),
+            source: path.resolve(source),
+            params: record?.params,
+            results: [],
+        };
+        if (record && record.test && record.accuracy !== undefined && record.testResult) {
+            entry.results.push({
+                time: record.endTime || record.startTime,
+                checks: `${record.test.start}:${record.test.count}`,
+                ...record.testResult,
+                accuracy: record.accuracy,
+            });
+        }
+        this.data.models[name] = entry;
+        this.save();
+        return entry;
+    }
+
+    /**
+     * Return the registered models with the same traineddata as a model.
+     */
+    public getDuplicates(entry: ModelEntry): string[] {
+        return this.list().filter(m => m.name !== entry.name && m.sha256 === entry.sha256).map(m => m.name);
+    }
+
+    public use(name: string) {
+        this.get(name);
+        this.data.active = name;
+        this.save();
+    }
+
+    public addResult(name: string, result: ModelResult) {
+        this.get(name).results.push(result);
+        this.save();
+    }
+
+    public getDir(): string {
+        return this.dir;
+    }
+
+    public static sha256(file: string): string {
+        return crypto.createHash("sha256").update(fs.readFileSync(file)).digest("hex");
+    }
+
+    /**
+     * Write the registry to a temporary file and rename it so that an interrupted write can't corrupt it.
+     */
+    private save() {
+        fs.mkdirSync(this.dir, { recursive: true });
+        const file = path.join(this.dir, ModelRegistry.FILE);
+        fs.writeFileSync(`${file}.tmp`, JSON.stringify(this.data, null, 4));
+        fs.renameSync(`${file}.tmp`, file);
+    }
+
+}
+
+/**
+ * The result of an A/B comparison of two models over the same checks.
+ */
+export interface ModelComparison {
+    a: string;
+    b: string;
+    total: number;
+    accuracy: { a: number, b: number };
+    bothRight: number;
+    bothWrong: number;
+    // The checks which only one of the models gets right
+    onlyA: string[];
+    onlyB: string[];
+    // The checks which failed with an error, which count as wrong
+    errors: { a: string[], b: string[] };
+}
+
+export class ModelComparer {
+
+    /**
+     * Compare the results of two models over the same checks.  A check is right if any translator matched its
+     * ground truth.
+     */
+    public static compare(a: string, aResults: CheckResult[], aErrors: string[], b: string, bResults: CheckResult[], bErrors: string[]): ModelComparison {
+        const right = (results: CheckResult[]) => new Set(results.filter(r => r.match).map(r => String(r.id)));
+        const aRight = right(aResults);
+        const bRight = right(bResults);
+        const ids = new Set<string>([...aResults.map(r => String(r.id)), ...aErrors, ...bResults.map(r => String(r.id)), ...bErrors]);
+        const cmp: ModelComparison = {
+            a, b,
+            total: ids.size,
+            accuracy: { a: 0, b: 0 },
+            bothRight: 0,
+            bothWrong: 0,
+            onlyA: [],
+            onlyB: [],
+            errors: { a: aErrors, b: bErrors },
+        };
+        for (const id of ids) {
+            const inA = aRight.has(id);
+            const inB = bRight.has(id);
+            if (inA && inB) cmp.bothRight++;
+            else if (inA) cmp.onlyA.push(id);
+            else if (inB) cmp.onlyB.push(id);
+            else cmp.bothWrong++;
+        }
+        if (cmp.total > 0) {
+            cmp.accuracy.a = (aRight.size * 100) / cmp.total;
+            cmp.accuracy.b = (bRight.size * 100) / cmp.total;
+        }
+        return cmp;
+    }
+
+    /**
+     * Format a comparison as human-readable lines.
+     */
+    public static format(cmp: ModelComparison): string[] {
+        const lines: string[] = [];
+        lines.push(`Checks compared: ${cmp.total}`);
+        lines.push(`Model ${cmp.a}: ${cmp.accuracy.a.toFixed(2)}%`);
+        lines.push(`Model ${cmp.b}: ${cmp.accuracy.b.toFixed(2)}%`);
+        lines.push(`Both right: ${cmp.bothRight}`);
+        lines.push(`Both wrong: ${cmp.bothWrong}`);
+        lines.push(`Only ${cmp.a} right (${cmp.onlyA.length}): ${JSON.stringify(cmp.onlyA)}`);
+        lines.push(`Only ${cmp.b} right (${cmp.onlyB.length}): ${JSON.stringify(cmp.onlyB)}`);
+        if (cmp.errors.a.length > 0) lines.push(`Errors with ${cmp.a}: ${JSON.stringify(cmp.errors.a)}`);
+        if (cmp.errors.b.length > 0) lines.push(`Errors with ${cmp.b}: ${JSON.stringify(cmp.errors.b)}`);
+        return lines;
+    }
+
+}
@@ -0,0 +1,409 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type OptionType = "string" | "int" | "number" | "boolean";
+
+export type OptionValue = string | number | boolean;
+
+/**
+ * An option of a command, or a setting if it has an environment variable.
+ *
+ * Settings apply to all commands and are resolved with the following precedence:
+ * command line flag, environment variable, config file, default.  The resolved value of each setting is
+ * exported to its environment variable so that it is also seen by the SDK and by worker threads.
+ */
+export interface OptionSpec {
+    // The flag name without the leading "--"
+    name: string;
+    type: OptionType;
+    desc: string;
+    // The placeholder for the value in help output
+    arg?: string;
+    env?: string;
+    def?: OptionValue;
+    // The allowed values of a string option
+    choices?: string[];
+    // Settings are grouped so that the help of a command lists only the settings which apply to it
+    group?: string;
+}
+
+/**
+ * A positional argument of a command.
+ */
+export interface ArgSpec {
+    name: string;
+    type?: OptionType;
+    optional?: boolean;
+    // The argument consumes all remaining arguments
+    variadic?: boolean;
+}
+
+export interface CommandSpec {
+    // The words which invoke the command, such as "check test"
+    name: string;
+    desc: string;
+    // The positional argument forms, such as ["<start> [<count>]", "--manifest <file>"]
+    usage: string[];
+    args?: ArgSpec[];
+    options?: OptionSpec[];
+    // The setting groups which apply to this command
+    settings?: string[];
+    run: (args: string[], opts: ParsedOptions, parsed: ParsedCommand) => Promise<void>;
+    // Validate the positional arguments rather than using "args", such as for alternative forms
+    validate?: (args: string[], opts: ParsedOptions) => void;
+}
+
+export type ParsedOptions = {[name:string]: OptionValue | undefined};
+
+export interface ParsedCommand {
+    command: CommandSpec;
+    args: string[];
+    opts: ParsedOptions;
+    // The options given as flags, which unlike "opts" do not include the settings resolved by "applySettings"
+    flags: ParsedOptions;
+}
+
+/**
+ * An error in the usage of the CLI, such as an unknown command or an invalid argument.
+ */
+export class UsageError extends Error {
+
+    public readonly command?: CommandSpec;
+
+    constructor(message: string, command?: CommandSpec) {
+        super(message);
+        this.name = "UsageError";
+        this.command = command;
+    }
+
+}
+
+/**
+ * A request for help, which is thrown when --help is given.
+ */
+export class HelpRequest extends Error {
+
+    public readonly command?: CommandSpec;
+    public readonly prefix: string;
+
+    constructor(prefix: string, command?: CommandSpec) {
+        super("help");
+        this.name = "HelpRequest";
+        this.prefix = prefix;
+        this.command = command;
+    }
+
+}
+
+/**
+ * The exit codes of the CLI.
+ */
+export const ExitCode = {
+    // The command succeeded
+    OK: 0,
+    // The command failed with an unexpected error
+    ERROR: 1,
+    // An invalid command, option or argument
+    USAGE: 2,
+    // An invalid environment variable or config file, or the environment could not be initialized,
+    // such as when the REST service is not healthy
+    CONFIG: 3,
+    // The command completed but one or more checks failed with an error
+    ITEM_FAILURES: 4,
+    // The command completed but the accuracy is below the required threshold
+    BELOW_THRESHOLD: 5,
+};
+
+export const CONFIG_FILES = [".fin-ocr.json", ".fin-ocrrc"];
+
+export class Options {
+
+    private commands: CommandSpec[];
+    private settings: OptionSpec[];
+    private groups: {[group:string]:string};
+
+    /**
+     * Constructor
+     * @param commands The commands
+     * @param settings The settings, each of which has an environment variable
+     * @param groups The description of each setting group
+     */
+    constructor(commands: CommandSpec[], settings: OptionSpec[], groups: {[group:string]:string}) {
+        this.commands = commands;
+        this.settings = settings;
+        this.groups = groups;
+    }
+
+    /**
+     * Parse the command line, returning the command with its validated arguments and options.
+     * Settings given as flags are returned in the options and must then be applied with "applySettings".
+     */
+    public parse(argv: string[]): ParsedCommand {
+        const words: string[] = [];
+        const opts: ParsedOptions = {};
+        let command: CommandSpec | undefined;
+        let help = false;
+        const args: string[] = [];
+        for (let i = 0; i < argv.length; i++) {
+            const token = argv[i] as string;
+            if (token === "--help" || token === "-h") {
+                help = true;
+                continue;
+            }
+            if (token === "--") {
+                args.push(...argv.slice(i + 1));
+                break;
+            }
+            if (token.startsWith("--")) {
+                const eq = token.indexOf("=");
+                const name = eq > 0 ? token.substring(2, eq) : token.substring(2);
+                const spec = this.findOption(name, command);
+                if (!spec) throw new UsageError(`Unknown option --${name}`, command);
+                let raw: string | undefined;
+                if (eq > 0) {
+                    raw = token.substring(eq + 1);
+                } else if (spec.type !== "boolean") {
+                    raw = argv[++i];
+                    if (raw === undefined) throw new UsageError(`Missing value for option --${name}`, command);
+                }
+                opts[spec.name] = raw === undefined ? true : Options.convert(raw, spec, `--${name}`, command);
+                continue;
+            }
+            if (!command) {
+                words.push(token);
+                command = this.findCommand(words);
+                if (!command && !this.isPrefix(words)) throw new UsageError(`Invalid command: ${words.join(" ")}`);
+                continue;
+            }
+            args.push(token);
+        }
+        if (help || !command) {
+            if (help) throw new HelpRequest(words.join(" "), command);
+            throw new UsageError(words.length > 0 ? `Incomplete command: ${words.join(" ")}` : "Missing command");
+        }
+        this.validateArgs(command, args, opts);
+        return { command, args, opts, flags: { ...opts } };
+    }
+
+    /**
+     * Return the command line of a parsed command in a canonical form, with its flags after its arguments,
+     * such as for recording the command of a run in a report.
+     */
+    public static commandLine(parsed: ParsedCommand): string {
+        const quote = (s: string) => /^[\w@%+=:,./-]+$/.test(s) ? s : `'${s.replace(/'/g, "'\\''")}'`;
+        const words = [parsed.command.name, ...parsed.args.map(quote)];
+        for (const [name, value] of Object.entries(parsed.flags)) {
+            if (value === undefined) continue;
+            if (typeof value === "boolean") words.push(value ? `--${name}` : `--${name}=false`);
+            else words.push(`--${name} ${quote(String(value))}`);
+        }
+        return words.join(" ");
+    }
+
+    /**
+     * Resolve each setting from the flags, environment, config file and default in that order of precedence,
+     * validating it and exporting it to its environment variable.
+     * The config file may also contain an "env" object of other environment variables, such as the OCR_*
+     * variables of the SDK, which are set if not already in the environment.
+     */
+    public applySettings(opts: ParsedOptions, configFile?: string) {
+        const file = configFile || Options.findConfigFile(process.cwd());
+        const config = file ? Options.readConfig(file) : {};
+        for (const spec of this.settings) {
+            const env = spec.env as string;
+            let value: OptionValue | undefined = opts[spec.name];
+            if (value === undefined && env in process.env) {
+                value = Options.convert(process.env[env] as string, spec, `environment variable ${env}`);
+            }
+            const key = Options.camelCase(spec.name);
+            if (value === undefined && key in config) {
+                value = Options.convert(String(config[key]), spec, `"${key}" in ${file}`);
+            }
+            if (value === undefined) value = spec.def;
+            if (value !== undefined) process.env[env] = String(value);
+            opts[spec.name] = value;
+        }
+        const extraEnv = config.env || {};
+        for (const name in extraEnv) {
+            if (!(name in process.env)) process.env[name] = String(extraEnv[name]);
+        }
+    }
+
+    /**
+     * Return the help text for a command, or for all commands beginning with a prefix.
+     */
+    public help(prefix: string, command?: CommandSpec): string {
+        const lines: string[] = [];
+        if (command) {
+            lines.push(`Usage: ${command.usage.map(u => `ocr ${command.name} ${u}`.trim()).join("\n       ")}`);
+            lines.push("");
+            lines.push(command.desc);
+            const options = command.options || [];
+            if (options.length > 0) {
+                lines.push("");
+                lines.push("Options:");
+                for (const spec of options) lines.push(Options.formatOption(spec));
+            }
+            for (const group of command.settings || []) {
+                lines.push("");
+                lines.push(`${this.groups[group] || group} settings:`);
+                for (const spec of this.settings.filter(s => s.group === group)) lines.push(Options.formatOption(spec));
+            }
+            return lines.join("\n");
+        }
+        const commands = this.commands.filter(c => prefix === "" || c.name === prefix || c.name.startsWith(prefix + " "));
+        lines.push("Usage:");
+        for (const c of commands) {
+            lines.push(`  ocr ${c.name} ${c.usage[0] || ""}`.trimEnd());
+            lines.push(`      ${c.desc.split("\n")[0]}`);
+        }
+        lines.push("");
+        lines.push("Run 'ocr <command> --help' for the arguments, options and settings of a command.");
+        lines.push(`Settings are taken from flags, then environment variables, then a ${CONFIG_FILES.join(" or ")} file, then defaults.`);
+        return lines.join("\n");
+    }
+
+    /**
+     * Return the help text for all settings.
+     */
+    public settingsHelp(): string {
+        const lines: string[] = [];
+        for (const group in this.groups) {
+            lines.push(`${this.groups[group]} settings:`);
+            for (const spec of this.settings.filter(s => s.group === group)) lines.push(Options.formatOption(spec));
+            lines.push("");
+        }
+        return lines.join("\n");
+    }
+
+    /**
+     * Find the config file in the given directory or the nearest parent directory containing one.
+     */
+    public static findConfigFile(dir: string): string | undefined {
+        for (;;) {
+            for (const name of CONFIG_FILES) {
+                const file = path.join(dir, name);
+                if (fs.existsSync(file)) return file;
+            }
+            const parent = path.dirname(dir);
+            if (parent === dir) return undefined;
+            dir = parent;
+        }
+    }
+
+    public static readConfig(file: string): {[key:string]:any} {
+        let config: any;
+        try {
+            config = JSON.parse(fs.readFileSync(file).toString());
+        } catch (e: any) {
+            throw new ConfigError(`Failed reading config file ${file}: ${e.message}`);
+        }
+        if (!config || typeof config !== "object" || Array.isArray(config)) throw new ConfigError(`Config file ${file} must contain a JSON object`);
+        return config;
+    }
+
+    /**
+     * Convert and validate the string value of an option.
+     */
+    public static convert(raw: string, spec: OptionSpec, source: string, command?: CommandSpec): OptionValue {
+        const fail = (expected: string) => {
+            const msg = `Invalid value for ${source}: '${raw}' is not ${expected}`;
+            // Flags and arguments are usage errors whereas environment variables and config files are config errors
+            return source.startsWith("--") || source.startsWith("<") ? new UsageError(msg, command) : new ConfigError(msg);
+        };
+        if (spec.type === "int") {
+            if (!/^-?\d+$/.test(raw.trim())) throw fail("an integer");
+            return parseInt(raw, 10);
+        }
+        if (spec.type === "number") {
+            const n = Number(raw);
+            if (raw.trim() === "" || isNaN(n)) throw fail("a number");
+            return n;
+        }
+        if (spec.type === "boolean") {
+            if (raw === "true" || raw === "") return true;
+            if (raw === "false") return false;
+            throw fail("'true' or 'false'");
+        }
+        if (spec.choices && spec.choices.indexOf(raw) < 0) throw fail(`one of ${spec.choices.join(", ")}`);
+        return raw;
+    }
+
+    /**
+     * Parse a positional integer argument.
+     */
+    public static intArg(raw: string | undefined, name: string, command?: CommandSpec): number {
+        if (raw === undefined || !/^-?\d+$/.test(raw.trim())) throw new UsageError(`Invalid ${name}: '${raw}' is not an integer`, command);
+        return parseInt(raw, 10);
+    }
+
+    private validateArgs(command: CommandSpec, args: string[], opts: ParsedOptions) {
+        if (command.validate) {
+            try {
+                command.validate(args, opts);
+            } catch (e: any) {
+                if (e instanceof UsageError && !e.command) throw new UsageError(e.message, command);
+                throw e;
+            }
+            return;
+        }
+        const specs = command.args || [];
+        const variadic = specs.some(s => s.variadic);
+        const required = specs.filter(s => !s.optional).length;
+        if (args.length < required) {
+            const missing = specs.filter(s => !s.optional)[args.length] as ArgSpec;
+            throw new UsageError(`Missing argument <${missing.name}>`, command);
+        }
+        if (!variadic && args.length > specs.length) throw new UsageError(`Too many arguments`, command);
+        specs.forEach((spec, i) => {
+            const values = spec.variadic ? args.slice(i) : args[i] !== undefined ? [args[i] as string] : [];
+            for (const v of values) {
+                if (spec.type && spec.type !== "string") Options.convert(v, spec as OptionSpec, `<${spec.name}>`, command);
+            }
+        });
+    }
+
+    private findOption(name: string, command?: CommandSpec): OptionSpec | undefined {
+        const options = command ? command.options || [] : [];
+        return options.find(o => o.name === name) || this.settings.find(s => s.name === name);
+    }
+
+    private findCommand(words: string[]): CommandSpec | undefined {
+        const name = words.join(" ");
+        return this.commands.find(c => c.name === name);
+    }
+
+    private isPrefix(words: string[]): boolean {
+        const prefix = words.join(" ") + " ";
+        return this.commands.some(c => c.name.startsWith(prefix));
+    }
+
+    private static formatOption(spec: OptionSpec): string {
+        let flag = `--${spec.name}`;
+        if (spec.type !== "boolean") flag += ` ${spec.arg || "<value>"}`;
+        let desc = spec.desc;
+        if (spec.env) desc += ` [env: ${spec.env}]`;
+        if (spec.def !== undefined) desc += ` (default: ${spec.def})`;
+        return `  ${flag.padEnd(32)} ${desc}`;
+    }
+
+    private static camelCase(name: string): string {
+        return name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+    }
+
+}
+
+/**
+ * An error in the configuration, such as an invalid environment variable or config file.
+ */
+export class ConfigError extends Error {
+
+    constructor(message: string) {
+        super(message);
+        this.name = "ConfigError";
+    }
+
+}
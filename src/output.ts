@@ -0,0 +1,81 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as ocr from '@discoverfinancial/fin-ocr-sdk';
+import { Util } from './util.js';
+
+export type OutputFormat = "json" | "ndjson" | "csv" | "table";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "ndjson", "csv", "table"];
+
+const COLUMNS = ["id", "translator", "routingNumber", "accountNumber", "checkNumber", "micrLine"];
+
+/**
+ * Writes scan results to stdout in the selected format so that the CLI may be used in shell pipelines.
+ *
+ * The "json" format writes the response of a single check, or an array of the responses of multiple checks
+ * once all are complete.  The "ndjson" format writes one response per line as each check completes.
+ * The "csv" and "table" formats write one row per translator of each check.
+ */
+export class Output {
+
+    private format: OutputFormat;
+    private out: NodeJS.WritableStream;
+    private responses: ocr.CheckScanResponse[] = [];
+    private rows: string[][] = [];
+    private headerWritten = false;
+
+    constructor(format: OutputFormat, out?: NodeJS.WritableStream) {
+        if (OUTPUT_FORMATS.indexOf(format) < 0) throw new Error(`Invalid output format '${format}'; expecting one of ${OUTPUT_FORMATS.join(", ")}`);
+        this.format = format;
+        this.out = out || process.stdout;
+    }
+
+    /**
+     * Write the scan response of a check.
+     */
+    public write(id: string, resp: ocr.CheckScanResponse) {
+        if (this.format === "json") {
+            this.responses.push(Util.toSerializable({ ...resp, id }));
+        } else if (this.format === "ndjson") {
+            this.out.write(JSON.stringify(Util.toSerializable({ ...resp, id })) + "\n");
+        } else if (this.format === "csv") {
+            if (!this.headerWritten) {
+                this.out.write(Output.csvLine(COLUMNS));
+                this.headerWritten = true;
+            }
+            for (const row of Output.toRows(id, resp)) this.out.write(Output.csvLine(row));
+        } else {
+            this.rows.push(...Output.toRows(id, resp));
+        }
+    }
+
+    /**
+     * Finish writing, which is required for the formats which can only be written once all checks are complete.
+     * @param multiple True if the output is for multiple checks, in which case the json format is always an array
+     */
+    public end(multiple: boolean) {
+        if (this.format === "json") {
+            const value = multiple ? this.responses : this.responses[0];
+            if (value !== undefined) this.out.write(JSON.stringify(value, null, 4) + "\n");
+        } else if (this.format === "table") {
+            const rows = [COLUMNS, ...this.rows];
+            const widths = COLUMNS.map((_, i) => Math.max(...rows.map(r => (r[i] || "").length)));
+            for (const row of rows) this.out.write(row.map((v, i) => v.padEnd(widths[i] as number)).join("  ").trimEnd() + "\n");
+        }
+    }
+
+    private static toRows(id: string, resp: ocr.CheckScanResponse): string[][] {
+        const rows: string[][] = [];
+        for (const name in resp.translators) {
+            const r = (resp.translators[name] as ocr.CheckScanTranslatorResponse).result;
+            rows.push([id, name, r.routingNumber || "", r.accountNumber || "", r.checkNumber || "", r.micrLine || ""]);
+        }
+        return rows;
+    }
+
+    private static csvLine(fields: string[]): string {
+        return fields.map(f => /[",\r\n]/.test(f) ? `"${f.replace(/"/g, '""')}"` : f).join(",") + "\n";
+    }
+
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as readline from 'readline';
+
+/**
+ * Reads the answers of an interactive command from stdin, whether typed or piped.
+ */
+export class Prompter {
+
+    private rl: readline.Interface;
+    // The lines read but not yet answered, since piped input may arrive before it is asked for
+    private lines: string[] = [];
+    private waiting?: (line: string | undefined) => void;
+    private closed = false;
+
+    constructor() {
+        this.rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+        this.rl.on("line", (line) => {
+            if (this.waiting) this.answer(line);
+            else this.lines.push(line);
+        });
+        this.rl.on("close", () => {
+            this.closed = true;
+            if (this.waiting) this.answer(undefined);
+        });
+    }
+
+    /**
+     * Prompt for and return the next line of input, trimmed, or undefined at the end of the input.
+     */
+    public ask(query: string): Promise<string | undefined> {
+        process.stdout.write(query);
+        const line = this.lines.shift();
+        if (line !== undefined) return Promise.resolve(line.trim());
+        if (this.closed) return Promise.resolve(undefined);
+        return new Promise(resolve => this.waiting = (line) => resolve(line === undefined ? undefined : line.trim()));
+    }
+
+    public close() {
+        this.rl.close();
+    }
+
+    private answer(line: string | undefined) {
+        const waiting = this.waiting as (line: string | undefined) => void;
+        this.waiting = undefined;
+        waiting(line);
+    }
+
+}
@@ -1,47 +1,188 @@
 /**
  * Copyright (c) 2024 Capital One
 */
+
+/**
+ * A job run by the queue.  The signal is aborted if the job times out so that the job may release
+ * any resources it holds, such as a worker thread or an HTTP request.
+ */
+export interface QueueJob<T> {
+    name: string;
+    run: (signal: AbortSignal) => Promise<T>;
+    // Called when the job succeeds
+    done?: (result: T) => void;
+    // Called when the job fails after all retries
+    failed?: (err: Error) => void;
+}
+
+export interface QueueOpts {
+    // The number of jobs to keep in flight
+    max: number;
+    // The number of milliseconds after which an attempt of a job times out; 0 for no timeout
+    timeout?: number;
+    // The number of times to retry a failed job
+    retries?: number;
+    // The number of milliseconds to wait before the first retry, doubling for each subsequent retry
+    backoff?: number;
+    // The number of milliseconds between progress reports; 0 for none
+    progressInterval?: number;
+    onProgress?: (progress: QueueProgress) => void;
+}
+
+export interface QueueProgress {
+    completed: number;
+    failed: number;
+    retried: number;
+    inFlight: number;
+    elapsedMs: number;
+    // Jobs finished per second
+    rate: number;
+}
+
+export class TimeoutError extends Error {
+
+    constructor(name: string, ms: number) {
+        super(`Job ${name} timed out after ${ms} ms`);
+        this.name = "TimeoutError";
+    }
+
+}
+
 /**
- * Runs up to a max number of jobs in parallel.
+ * Runs jobs with a sliding window so that exactly "max" jobs are in flight until the jobs run out;
+ * that is, a new job is started as soon as any job finishes.
  *
- * NOTE: The code below is sub-optimal in the sense that less than "max" number of jobs may run concurrently.
- *       For example, suppose we have 3 jobs to run, the max number to run concurrently is 2, and that job 2
- *       completes before job 1.  In this case, we should start job 3 as soon as job 2 completes; however, this
- *       code currently starts job 3 when job 1 completes.
- *       The way to fix this is to use "await Promise.any" over the array of promises so that we recognize when
- *       any of the jobs complete (e.g. job 2 in the example above); however, installing that causes hangs to
- *       occur in tesseract for some reason.  Therefore, do not use "await Promise.any" for now and live with
- *       the sub-optimal degree of concurrency.
+ * Each attempt of a job may be given a timeout, which marks a hung job as failed, and failed jobs may be
+ * retried with exponential backoff.  A failed job does not stop the queue; its "failed" callback is called instead.
+ *
+ * NOTE: A timed out job can not be forcibly stopped unless it honors the abort signal.  A hung native call in
+ *       tesseract, for example, continues to hold its resources; run scans in worker threads to isolate these.
  */
 export class Queue<T> {
 
-    private iter: () => Promise<T | undefined>;
-    private promises: Promise<T | undefined>[] = [];
-    private max: number;
+    private next: () => QueueJob<T> | undefined;
+    private opts: QueueOpts;
+    private inFlight = 0;
+    private completed = 0;
+    private failed = 0;
+    private retried = 0;
+    private exhausted = false;
+    // The first exception thrown by a "done" or "failed" callback
+    private callbackError?: Error;
+    private startTime = 0;
 
     /**
      * Constructor
-     * @param iter The iterator which returns the next job to be run
-     * @param max The max number of jobs to run concurrently
+     * @param next Returns the next job to be run, or undefined if there are no more jobs
+     * @param opts The max number of jobs to run concurrently, or the queue options
      */
-    constructor(iter: () => Promise<T | undefined>, max: number) {
-        this.iter = iter;
-        this.max = max;
-    }
-    
-    public async run() {
-        for(;;) {
-            const r = await this.getNext();
-            if (!r) break;
+    constructor(next: () => QueueJob<T> | undefined, opts: QueueOpts | number) {
+        this.next = next;
+        this.opts = typeof opts === "number" ? { max: opts } : opts;
+        if (!(this.opts.max >= 1)) throw new Error(`Invalid concurrency: ${this.opts.max}`);
+    }
+
+    /**
+     * Run all of the jobs, resolving when every job has either succeeded or failed.  If a callback throws, no more
+     * jobs are started and the exception is thrown once the jobs in flight finish.
+     */
+    public async run(): Promise<void> {
+        this.startTime = Date.now();
+        const interval = this.opts.progressInterval || 0;
+        const timer = interval > 0 && this.opts.onProgress ? setInterval(() => this.reportProgress(), interval) : undefined;
+        if (timer) timer.unref();
+        try {
+            await new Promise<void>(resolve => {
+                const fill = () => {
+                    while (!this.exhausted && !this.callbackError && this.inFlight < this.opts.max) {
+                        const job = this.next();
+                        if (!job) {
+                            this.exhausted = true;
+                            break;
+                        }
+                        this.inFlight++;
+                        this.runJob(job).finally(() => {
+                            this.inFlight--;
+                            fill();
+                        });
+                    }
+                    if ((this.exhausted || this.callbackError) && this.inFlight === 0) resolve();
+                };
+                fill();
+            });
+        } finally {
+            if (timer) clearInterval(timer);
         }
+        if (this.callbackError) throw this.callbackError;
+    }
+
+    public getProgress(): QueueProgress {
+        const elapsedMs = Date.now() - this.startTime;
+        const finished = this.completed + this.failed;
+        return {
+            completed: this.completed,
+            failed: this.failed,
+            retried: this.retried,
+            inFlight: this.inFlight,
+            elapsedMs,
+            rate: elapsedMs > 0 ? (finished * 1000) / elapsedMs : 0,
+        };
     }
 
-    private async getNext(): Promise<T | undefined> {
-        while(this.promises.length < this.max) {
-            this.promises.push(this.iter());
+    private async runJob(job: QueueJob<T>): Promise<void> {
+        const retries = this.opts.retries || 0;
+        let result: T | undefined;
+        let error: Error | undefined;
+        for (let attempt = 0; ; attempt++) {
+            try {
+                result = await this.attempt(job);
+                break;
+            } catch (e: any) {
+                const err = e instanceof Error ? e : new Error(JSON.stringify(e));
+                if (attempt < retries) {
+                    this.retried++;
+                    await Queue.sleep((this.opts.backoff || 0) * Math.pow(2, attempt));
+                    continue;
+                }
+                error = err;
+                break;
+            }
         }
-        const p = this.promises.shift() as Promise<T | undefined>;
-        return await p;
+        // The callbacks are called after the attempts so that an exception thrown by one neither retries the job
+        // nor counts it twice; it stops the queue instead
+        try {
+            if (error) {
+                this.failed++;
+                if (job.failed) job.failed(error);
+            } else {
+                this.completed++;
+                if (job.done) job.done(result as T);
+            }
+        } catch (e: any) {
+            if (!this.callbackError) this.callbackError = e instanceof Error ? e : new Error(JSON.stringify(e));
+        }
+    }
+
+    private attempt(job: QueueJob<T>): Promise<T> {
+        const ac = new AbortController();
+        const timeout = this.opts.timeout || 0;
+        if (timeout <= 0) return job.run(ac.signal);
+        return new Promise<T>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                const err = new TimeoutError(job.name, timeout);
+                ac.abort(err);
+                reject(err);
+            }, timeout);
+            job.run(ac.signal).then(resolve, reject).finally(() => clearTimeout(timer));
+        });
+    }
+
+    private reportProgress() {
+        if (this.opts.onProgress) this.opts.onProgress(this.getProgress());
+    }
+
+    private static sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
     }
 
 }
@@ -0,0 +1,164 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import { CheckResult, TranslatorResult } from './check.js';
+import { RunReport } from './report.js';
+
+/**
+ * The thresholds which cause a comparison of two runs to fail.
+ */
+export interface Thresholds {
+    // Fail if the match percentage drops by more than this number of percentage points
+    maxMatchDrop?: number;
+    // Fail if any check which matched in the baseline mismatches in the candidate
+    failOnNewMismatch?: boolean;
+}
+
+/**
+ * The accuracy, as a percentage, of the baseline and candidate runs over the checks common to both.
+ */
+export interface AccuracyDelta {
+    baseline: number;
+    candidate: number;
+    delta: number;
+}
+
+/**
+ * The result of comparing a candidate run with a baseline run.
+ */
+export interface RunComparison {
+    common: number;
+    newlyBroken: string[];
+    newlyFixed: string[];
+    onlyInBaseline: string[];
+    onlyInCandidate: string[];
+    overall: AccuracyDelta;
+    byTranslator: {[translator:string]: AccuracyDelta};
+    byField: {[translator:string]: {[field:string]: AccuracyDelta}};
+    // A description of each threshold which was crossed
+    failures: string[];
+}
+
+/**
+ * The fields of a check which are compared with the ground truth.
+ */
+export const FIELDS = ["routingNumber", "accountNumber", "checkNumber"];
+
+export class Regression {
+
+    public static compare(baseline: RunReport, candidate: RunReport, thresholds?: Thresholds): RunComparison {
+        thresholds = thresholds || {};
+        const base = Regression.byId(baseline.checks);
+        const cand = Regression.byId(candidate.checks);
+        const common: [CheckResult, CheckResult][] = [];
+        const onlyInBaseline: string[] = [];
+        const newlyBroken: string[] = [];
+        const newlyFixed: string[] = [];
+        for (const [id, b] of base) {
+            const c = cand.get(id);
+            if (!c) {
+                onlyInBaseline.push(id);
+                continue;
+            }
+            common.push([b, c]);
+            if (b.match && !c.match) newlyBroken.push(id);
+            else if (!b.match && c.match) newlyFixed.push(id);
+        }
+        const onlyInCandidate = [...cand.keys()].filter(id => !base.has(id));
+
+        const overall = Regression.delta(common, r => r.match);
+        const byTranslator: {[translator:string]: AccuracyDelta} = {};
+        const byField: {[translator:string]: {[field:string]: AccuracyDelta}} = {};
+        for (const tr of Regression.translators(common)) {
+            byTranslator[tr] = Regression.delta(common, r => Regression.fieldsMatch(r.translators[tr]));
+            const fields: {[field:string]: AccuracyDelta} = {};
+            for (const field of FIELDS) {
+                fields[field] = Regression.delta(common, r => Regression.fieldsMatch(r.translators[tr], field));
+            }
+            byField[tr] = fields;
+        }
+
+        const failures: string[] = [];
+        if (thresholds.maxMatchDrop !== undefined && -overall.delta > thresholds.maxMatchDrop) {
+            failures.push(`match percentage dropped by ${(-overall.delta).toFixed(2)} which exceeds the maximum of ${thresholds.maxMatchDrop}`);
+        }
+        if (thresholds.failOnNewMismatch && newlyBroken.length > 0) {
+            failures.push(`${newlyBroken.length} check(s) which previously matched now mismatch`);
+        }
+        return {
+            common: common.length,
+            newlyBroken,
+            newlyFixed,
+            onlyInBaseline,
+            onlyInCandidate,
+            overall,
+            byTranslator,
+            byField,
+            failures,
+        };
+    }
+
+    /**
+     * Format a comparison as human-readable lines.
+     */
+    public static format(cmp: RunComparison): string[] {
+        const pct = (d: AccuracyDelta) => `${d.baseline.toFixed(2)}% -> ${d.candidate.toFixed(2)}% (${d.delta >= 0 ? "+" : ""}${d.delta.toFixed(2)})`;
+        const lines: string[] = [];
+        lines.push(`Checks compared: ${cmp.common}`);
+        if (cmp.onlyInBaseline.length > 0) lines.push(`Only in baseline: ${JSON.stringify(cmp.onlyInBaseline)}`);
+        if (cmp.onlyInCandidate.length > 0) lines.push(`Only in candidate: ${JSON.stringify(cmp.onlyInCandidate)}`);
+        lines.push(`Newly broken: ${JSON.stringify(cmp.newlyBroken)}`);
+        lines.push(`Newly fixed: ${JSON.stringify(cmp.newlyFixed)}`);
+        lines.push(`Match: ${pct(cmp.overall)}`);
+        for (const tr in cmp.byTranslator) {
+            lines.push(`Translator ${tr}: ${pct(cmp.byTranslator[tr] as AccuracyDelta)}`);
+            const fields = cmp.byField[tr] || {};
+            for (const field in fields) {
+                lines.push(`    ${field}: ${pct(fields[field] as AccuracyDelta)}`);
+            }
+        }
+        for (const failure of cmp.failures) lines.push(`FAILED: ${failure}`);
+        return lines;
+    }
+
+    /**
+     * Index the checks of a report by id; reports written before ids became strings have numeric ids.
+     */
+    private static byId(checks: CheckResult[]): Map<string, CheckResult> {
+        const rtn = new Map<string, CheckResult>();
+        for (const c of checks) rtn.set(String(c.id), c);
+        return rtn;
+    }
+
+    private static translators(common: [CheckResult, CheckResult][]): string[] {
+        const names = new Set<string>();
+        for (const [b, c] of common) {
+            for (const tr in b.translators) names.add(tr);
+            for (const tr in c.translators) names.add(tr);
+        }
+        return [...names].sort();
+    }
+
+    /**
+     * Return true if the translator result exists and matched the given field, or all fields if none is given.
+     */
+    public static fieldsMatch(tr: TranslatorResult | undefined, field?: string): boolean {
+        if (!tr) return false;
+        if (field) return tr.mismatchedFields.indexOf(field) < 0;
+        return tr.mismatchedFields.length === 0;
+    }
+
+    private static delta(common: [CheckResult, CheckResult][], matched: (r: CheckResult) => boolean): AccuracyDelta {
+        const total = common.length;
+        if (total === 0) return { baseline: 0, candidate: 0, delta: 0 };
+        let b = 0, c = 0;
+        for (const [br, cr] of common) {
+            if (matched(br)) b++;
+            if (matched(cr)) c++;
+        }
+        const baseline = (b * 100) / total;
+        const candidate = (c * 100) / total;
+        return { baseline, candidate, delta: candidate - baseline };
+    }
+
+}
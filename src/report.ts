@@ -0,0 +1,171 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckComparer, CheckError, CheckMgr, CheckResult, CheckStats, TranslatorResult } from './check.js';
+import { ConsensusStats } from './consensus.js';
+import { CharMetricsStats } from './metrics.js';
+import { Util } from './util.js';
+
+/**
+ * The configuration which affects the results of a run.
+ */
+export interface RunConfig {
+    url?: string;
+    translators: string[];
+    checksDir: string;
+    checkEvalData?: string;
+    sdkVersion: string;
+    cliVersion: string;
+    // The OCR_* environment variables used to configure the SDK
+    sdk: {[name:string]:string};
+    // The registered model or archived traineddata of local scans, if any
+    model?: { name: string, sha256?: string };
+    // The directory of the recorded responses which were replayed rather than scanned, if any
+    replay?: string;
+}
+
+/**
+ * A machine-readable report of a run of "ocr check test".
+ */
+export interface RunReport {
+    version: number;
+    command: string;
+    startTime: string;
+    endTime: string;
+    durationMs: number;
+    config: RunConfig;
+    summary: CheckStats;
+    checks: CheckResult[];
+    errors?: CheckError[];
+    // The accuracy of the decision policies given by --scoring, if any
+    consensus?: ConsensusStats;
+    // The character metrics of each translator, if --char-metrics was given
+    charMetrics?: CharMetricsStats;
+}
+
+export type ReportFormat = "json" | "junit";
+
+export class Report {
+
+    public static readonly VERSION = 1;
+
+    /**
+     * Build a run report from the state of a comparer at the end of a run.
+     */
+    public static build(opts: { command: string, startTime: number, cm: CheckMgr, comparer: CheckComparer, consensus?: ConsensusStats, charMetrics?: CharMetricsStats }): RunReport {
+        const endTime = Date.now();
+        return {
+            version: Report.VERSION,
+            command: opts.command,
+            startTime: new Date(opts.startTime).toISOString(),
+            endTime: new Date(endTime).toISOString(),
+            durationMs: endTime - opts.startTime,
+            config: Report.getRunConfig(opts.cm),
+            summary: opts.comparer.getStats(),
+            checks: opts.comparer.getResults(),
+            errors: opts.comparer.getErrors(),
+            consensus: opts.consensus,
+            charMetrics: opts.charMetrics,
+        };
+    }
+
+    public static getRunConfig(cm: CheckMgr): RunConfig {
+        const model = cm.getModel();
+        return {
+            url: cm.getUrl(),
+            translators: cm.getTranslators(),
+            checksDir: cm.getChecksDir(),
+            checkEvalData: process.env.CHECK_EVAL_DATA,
+            sdkVersion: Util.getPackageVersion("@discoverfinancial/fin-ocr-sdk"),
+            cliVersion: Util.getCliVersion(),
+            sdk: Util.getEnvByPrefix("OCR_"),
+            model: model ? { name: model.name, sha256: model.sha256 } : undefined,
+            replay: process.env.SCAN_REPLAY_DIR,
+        };
+    }
+
+    /**
+     * Get the report format from an explicit format name or else from the file extension.
+     */
+    public static getFormat(file: string, format?: string): ReportFormat {
+        if (!format) return path.extname(file).toLowerCase() === ".xml" ? "junit" : "json";
+        if (format === "json" || format === "junit") return format;
+        throw new Error(`Invalid report format '${format}'; expecting 'json' or 'junit'`);
+    }
+
+    public static write(report: RunReport, file: string, format: ReportFormat) {
+        const dir = path.dirname(file);
+        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+        const contents = format === "junit" ? Report.toJUnit(report) : JSON.stringify(report, null, 4);
+        fs.writeFileSync(file, contents);
+    }
+
+    public static read(file: string): RunReport {
+        const buf = fs.readFileSync(file);
+        let report: RunReport;
+        try {
+            report = JSON.parse(buf.toString());
+        } catch (e: any) {
+            throw new Error(`Failed parsing report ${file}: ${e.message}`);
+        }
+        if (!report.summary || !Array.isArray(report.checks)) throw new Error(`File ${file} is not a JSON run report`);
+        return report;
+    }
+
+    /**
+     * Convert a report to JUnit XML, where each check is a test case which fails if it mismatched.
+     */
+    public static toJUnit(report: RunReport): string {
+        const s = report.summary;
+        const secs = (ms: number) => (ms / 1000).toFixed(3);
+        const lines: string[] = [];
+        lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+        const errors = report.errors || [];
+        const tests = s.total + errors.length;
+        lines.push(`<testsuites name="ocr check test" tests="${tests}" failures="${s.mismatches}" errors="${errors.length}" time="${secs(report.durationMs)}">`);
+        lines.push(`  <testsuite name="checks" tests="${tests}" failures="${s.mismatches}" errors="${errors.length}" timestamp="${report.startTime}" time="${secs(report.durationMs)}">`);
+        lines.push(`    <properties>`);
+        const props: {[name:string]:string} = {
+            command: report.command,
+            translators: report.config.translators.join(","),
+            checksDir: report.config.checksDir,
+            sdkVersion: report.config.sdkVersion,
+            matchPercentage: s.matchPercentage,
+            x9WrongPercentage: s.x9WrongPercentage,
+            ...report.config.sdk,
+        };
+        if (report.config.url) props.url = report.config.url;
+        if (report.config.checkEvalData) props.checkEvalData = report.config.checkEvalData;
+        for (const name in props) {
+            lines.push(`      <property name="${Report.xml(name)}" value="${Report.xml(props[name] as string)}"/>`);
+        }
+        lines.push(`    </properties>`);
+        for (const c of report.checks) {
+            const classname = c.translator ? `checks.${c.translator}` : "checks";
+            const open = `    <testcase classname="${Report.xml(classname)}" name="check-${c.id}"`;
+            if (c.match) {
+                lines.push(`${open}/>`);
+                continue;
+            }
+            const fields = Object.keys(c.translators).map(tr => `${tr}=${(c.translators[tr] as TranslatorResult).mismatchedFields.join(",")}`);
+            lines.push(`${open}>`);
+            lines.push(`      <failure message="${Report.xml(`mismatched ${fields.join("; ")}`)}" type="mismatch">${Report.xml(JSON.stringify(c, null, 2))}</failure>`);
+            lines.push(`    </testcase>`);
+        }
+        for (const e of errors) {
+            lines.push(`    <testcase classname="checks" name="check-${e.id}">`);
+            lines.push(`      <error message="${Report.xml(e.error)}" type="error"/>`);
+            lines.push(`    </testcase>`);
+        }
+        lines.push(`  </testsuite>`);
+        lines.push(`</testsuites>`);
+        return lines.join("\n") + "\n";
+    }
+
+    private static xml(str: string): string {
+        return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+    }
+
+}
@@ -0,0 +1,181 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import * as fs from 'fs';
+import * as https from 'https';
+import * as zlib from 'zlib';
+import { cliCtx } from './check.js';
+import { ConfigError } from './options.js';
+import { Util } from './util.js';
+
+export interface RestClientOpts {
+    // The number of milliseconds after which a request times out; 0 for no timeout
+    timeout: number;
+    // The number of times to retry a request which fails to connect, times out or has a retryable status
+    retries: number;
+    // The number of milliseconds before the first retry, doubling for each retry
+    backoff: number;
+    retryStatuses: number[];
+    // The headers sent with each request, including any authorization header
+    headers: {[name:string]: string};
+    // The PEM contents of the CA certificates, client certificate and client key
+    ca?: Buffer;
+    cert?: Buffer;
+    key?: Buffer;
+    // Gzip the request bodies
+    gzip: boolean;
+}
+
+/**
+ * The REST service could not be reached or was unavailable, even after retrying, as opposed to failing a scan.
+ */
+export class ConnectionError extends Error {
+
+    constructor(message: string) {
+        super(message);
+        this.name = "ConnectionError";
+    }
+
+}
+
+/**
+ * A client of the REST service which retries requests with exponential backoff.
+ */
+export class RestClient {
+
+    private url: string;
+    private opts: RestClientOpts;
+    private axios: AxiosInstance;
+
+    /**
+     * Create a client configured by the REQUEST_*, AUTH_TOKEN, CA_FILE, CLIENT_* and GZIP_REQUESTS settings.
+     */
+    public static fromEnv(url: string): RestClient {
+        const headers = RestClient.readHeaders(process.env.REQUEST_HEADERS);
+        if (process.env.AUTH_TOKEN) headers["Authorization"] = `Bearer ${process.env.AUTH_TOKEN}`;
+        const statuses = (process.env.RETRY_STATUSES || "408,429,502,503,504").split(",").filter(s => s.trim().length > 0);
+        const retryStatuses = statuses.map(s => {
+            const status = parseInt(s);
+            if (isNaN(status)) throw new ConfigError(`Invalid status '${s}' in RETRY_STATUSES`);
+            return status;
+        });
+        if (!process.env.CLIENT_CERT !== !process.env.CLIENT_KEY) throw new ConfigError("Set both CLIENT_CERT and CLIENT_KEY, or neither");
+        return new RestClient(url, {
+            timeout: (Util.getNum("REQUEST_TIMEOUT", 60) as number) * 1000,
+            retries: Util.getNum("REQUEST_RETRIES", 3) as number,
+            backoff: Util.getNum("REQUEST_BACKOFF", 500) as number,
+            retryStatuses,
+            headers,
+            ca: RestClient.readFile(process.env.CA_FILE, "CA_FILE"),
+            cert: RestClient.readFile(process.env.CLIENT_CERT, "CLIENT_CERT"),
+            key: RestClient.readFile(process.env.CLIENT_KEY, "CLIENT_KEY"),
+            gzip: Util.getBool("GZIP_REQUESTS", false),
+        });
+    }
+
+    constructor(url: string, opts: RestClientOpts) {
+        this.url = url.replace(/\/+$/, "");
+        this.opts = opts;
+        const agent = opts.ca || opts.cert ? new https.Agent({ ca: opts.ca, cert: opts.cert, key: opts.key }) : undefined;
+        this.axios = axios.create({ proxy: false, timeout: opts.timeout, headers: opts.headers, httpsAgent: agent });
+    }
+
+    public getUrl(): string {
+        return this.url;
+    }
+
+    /**
+     * Call GET /health, retrying "retries" times rather than the number of times of other requests, since the
+     * service may still be starting.
+     */
+    public async health(retries: number): Promise<any> {
+        return await this.request("get", "/health", undefined, undefined, retries);
+    }
+
+    public async post(path: string, body: any, signal?: AbortSignal): Promise<any> {
+        return await this.request("post", path, body, signal, this.opts.retries);
+    }
+
+    private async request(method: "get" | "post", path: string, body: any, signal: AbortSignal | undefined, retries: number): Promise<any> {
+        const url = `${this.url}${path}`;
+        let data = body;
+        const headers: {[name:string]: string} = {};
+        if (body !== undefined && this.opts.gzip) {
+            data = zlib.gzipSync(JSON.stringify(body));
+            headers["Content-Type"] = "application/json";
+            headers["Content-Encoding"] = "gzip";
+        }
+        for (let attempt = 0; ; attempt++) {
+            let response: AxiosResponse | undefined;
+            let error: any;
+            try {
+                response = await this.axios.request({ method, url, data, headers, signal, validateStatus: () => true });
+            } catch (e: any) {
+                // An aborted request is not retried
+                if (axios.isCancel(e) || (signal && signal.aborted)) throw e;
+                error = e;
+            }
+            if (response && response.status < 400) return response.data;
+            const retryable = !response || this.opts.retryStatuses.indexOf(response.status) >= 0;
+            const reason = response ? `status ${response.status}${RestClient.describe(response.data)}` : (error.code || error.message);
+            if (!retryable) throw new Error(`${method.toUpperCase()} ${url} failed with ${reason}`);
+            if (attempt >= retries) {
+                const attempts = attempt + 1;
+                throw new ConnectionError(`${method.toUpperCase()} ${url} failed with ${reason} after ${attempts} attempt${attempts > 1 ? "s" : ""}`);
+            }
+            const delay = Math.max(this.opts.backoff * 2 ** attempt, RestClient.retryAfter(response));
+            cliCtx().debug(`${method.toUpperCase()} ${url} failed with ${reason}; retrying in ${delay} ms`);
+            await RestClient.sleep(delay, signal);
+        }
+    }
+
+    /**
+     * Return the number of milliseconds of the Retry-After header of a response, or 0.
+     */
+    private static retryAfter(response?: AxiosResponse): number {
+        const value = response && response.headers["retry-after"];
+        const secs = value ? parseInt(String(value)) : NaN;
+        return isNaN(secs) ? 0 : secs * 1000;
+    }
+
+    private static describe(data: any): string {
+        if (data === undefined || data === "") return "";
+        return `: ${typeof data === "string" ? data : JSON.stringify(data)}`;
+    }
+
+    private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal && signal.aborted) return reject(signal.reason);
+            const timer = setTimeout(resolve, ms);
+            if (signal) signal.addEventListener("abort", () => {
+                clearTimeout(timer);
+                reject(signal.reason);
+            }, { once: true });
+        });
+    }
+
+    /**
+     * Parse the REQUEST_HEADERS setting: a JSON object of headers, or "@<file>" naming a file which contains one.
+     */
+    private static readHeaders(value?: string): {[name:string]: string} {
+        if (!value) return {};
+        let text = value;
+        if (value.startsWith("@")) text = (RestClient.readFile(value.substring(1), "REQUEST_HEADERS") as Buffer).toString();
+        let headers: any;
+        try {
+            headers = JSON.parse(text);
+        } catch (e: any) {
+            throw new ConfigError(`Invalid REQUEST_HEADERS; expecting a JSON object of headers: ${e.message}`);
+        }
+        if (!headers || typeof headers !== "object" || Array.isArray(headers)) throw new ConfigError("Invalid REQUEST_HEADERS; expecting a JSON object of headers");
+        return Object.fromEntries(Object.entries(headers).map(([name, v]) => [name, String(v)]));
+    }
+
+    private static readFile(file: string | undefined, setting: string): Buffer | undefined {
+        if (!file) return undefined;
+        if (!fs.existsSync(file)) throw new ConfigError(`The file ${file} of ${setting} does not exist`);
+        return fs.readFileSync(file);
+    }
+
+}
@@ -0,0 +1,306 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as ocr from '@discoverfinancial/fin-ocr-sdk';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { CheckMgr, cliCtx } from './check.js';
+import { Util } from './util.js';
+
+export interface ServerOpts {
+    port: number;
+    // The address to listen on; all addresses if not set
+    host?: string;
+    // The largest request body accepted, in bytes
+    maxBodySize: number;
+    // The largest number of requests in a batch
+    maxBatchSize: number;
+    // The number of scans performed at once
+    maxConcurrency: number;
+    // The number of scans which may wait for a free slot before requests are refused with 503
+    maxQueue: number;
+}
+
+/**
+ * The counters reported by GET /metrics.
+ */
+export interface ServerMetrics {
+    startTime: string;
+    uptimeSec: number;
+    // The number of requests by route, such as "POST /check/scan"
+    requests: {[route:string]: number};
+    // The number of responses by status code
+    responses: {[status:string]: number};
+    scans: number;
+    scanErrors: number;
+    // The scans refused because too many were waiting
+    refused: number;
+    inFlight: number;
+    queued: number;
+    scanMs: { total: number, max: number, average: number };
+}
+
+/**
+ * The response of one request of a batch: the scan response, or the error which failed the scan.
+ */
+export interface BatchItem {
+    id?: string;
+    response?: ocr.CheckScanResponse;
+    error?: string;
+}
+
+class HttpError extends Error {
+
+    public readonly status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+
+}
+
+/**
+ * A REST service with the contract of the fin-ocr server: GET /health and POST /check/scan, whose request
+ * and response are a CheckScanRequest and CheckScanResponse with base64 encoded image buffers.  It adds
+ * POST /check/scan/batch, which takes {"requests": [...]} and returns {"responses": [...]}, and GET /metrics.
+ */
+export class ScanServer {
+
+    private cm: CheckMgr;
+    private opts: ServerOpts;
+    private server?: http.Server;
+    private startTime = new Date();
+    private inFlight = 0;
+    private waiting: (() => void)[] = [];
+    private idle?: () => void;
+    private metrics = {
+        requests: {} as {[route:string]: number},
+        responses: {} as {[status:string]: number},
+        scans: 0,
+        scanErrors: 0,
+        refused: 0,
+        scanMsTotal: 0,
+        scanMsMax: 0,
+    };
+
+    constructor(cm: CheckMgr, opts: ServerOpts) {
+        this.cm = cm;
+        this.opts = opts;
+    }
+
+    /**
+     * Start listening.
+     * @returns The port listened on, which is chosen by the system if the port is 0
+     */
+    public start(): Promise<number> {
+        const server = http.createServer((req, res) => this.handle(req, res));
+        this.server = server;
+        return new Promise((resolve, reject) => {
+            server.once("error", reject);
+            server.listen(this.opts.port, this.opts.host, () => {
+                server.removeListener("error", reject);
+                const address = server.address();
+                resolve(typeof address === "object" && address ? address.port : this.opts.port);
+            });
+        });
+    }
+
+    /**
+     * Stop accepting connections and wait for the scans in flight to finish.
+     */
+    public async stop() {
+        const server = this.server;
+        if (!server) return;
+        this.server = undefined;
+        await new Promise<void>(resolve => {
+            server.close(() => resolve());
+            server.closeIdleConnections();
+        });
+        if (this.inFlight > 0) await new Promise<void>(resolve => this.idle = resolve);
+    }
+
+    public getMetrics(): ServerMetrics {
+        const m = this.metrics;
+        return {
+            startTime: this.startTime.toISOString(),
+            uptimeSec: Math.round((Date.now() - this.startTime.getTime()) / 1000),
+            requests: m.requests,
+            responses: m.responses,
+            scans: m.scans,
+            scanErrors: m.scanErrors,
+            refused: m.refused,
+            inFlight: this.inFlight,
+            queued: this.waiting.length,
+            scanMs: { total: m.scanMsTotal, max: m.scanMsMax, average: m.scans > 0 ? Math.round(m.scanMsTotal / m.scans) : 0 },
+        };
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const route = `${req.method} ${(req.url || "/").split("?")[0]}`;
+        this.metrics.requests[route] = (this.metrics.requests[route] || 0) + 1;
+        // Abort the scans of a request whose client goes away before it is answered
+        const ac = new AbortController();
+        res.on("close", () => {
+            if (!res.writableFinished) ac.abort(new Error("The client closed the connection"));
+        });
+        try {
+            switch (route) {
+                case "GET /health":
+                    return this.send(res, 200, this.health());
+                case "GET /metrics":
+                    return this.send(res, 200, this.getMetrics());
+                case "POST /check/scan": {
+                    const body = await this.readBody(req);
+                    return this.send(res, 200, await this.scan(ScanServer.toRequest(body), ac.signal));
+                }
+                case "POST /check/scan/batch":
+                    return this.send(res, 200, { responses: await this.batch(await this.readBody(req), ac.signal) });
+            }
+            if (["/health", "/metrics", "/check/scan", "/check/scan/batch"].indexOf(route.split(" ")[1] as string) >= 0) {
+                throw new HttpError(405, `Method ${req.method} is not allowed`);
+            }
+            throw new HttpError(404, `Not found: ${req.url}`);
+        } catch (e: any) {
+            const status = e instanceof HttpError ? e.status : 500;
+            if (status === 500) cliCtx().error(`Failed ${route}: ${e.stack || e.message}`);
+            else cliCtx().debug(`Refused ${route} with ${status}: ${e.message}`);
+            if (status === 413) res.setHeader("Connection", "close");
+            if (status === 503) res.setHeader("Retry-After", "1");
+            this.send(res, status, { error: e.message });
+        }
+    }
+
+    private health(): any {
+        const model = this.cm.getModel();
+        return {
+            status: "ok",
+            sdkVersion: Util.getPackageVersion("@discoverfinancial/fin-ocr-sdk"),
+            translators: this.cm.getTranslators(),
+            model: model ? { name: model.name, sha256: model.sha256 } : undefined,
+        };
+    }
+
+    /**
+     * Scan the requests of a batch.  A batch is admitted only if all of its scans can run or wait, so that its
+     * requests do not fail one by one when other requests take the slots; otherwise it is refused with 503.
+     */
+    private async batch(body: any, signal: AbortSignal): Promise<BatchItem[]> {
+        const requests = body && body.requests;
+        if (!Array.isArray(requests)) throw new HttpError(400, "Expecting {\"requests\": [...]}");
+        if (requests.length > this.opts.maxBatchSize) throw new HttpError(413, `A batch may have at most ${this.opts.maxBatchSize} requests`);
+        const csrs = requests.map(r => ScanServer.toRequest(r));
+        const free = Math.max(0, this.opts.maxConcurrency - this.inFlight) + Math.max(0, this.opts.maxQueue - this.waiting.length);
+        if (csrs.length > free) {
+            this.metrics.refused += csrs.length;
+            throw new HttpError(503, `Too many scans in progress for a batch of ${csrs.length}; ${this.inFlight} running and ${this.waiting.length} waiting`);
+        }
+        // Each scan takes its slot or place in the queue before the first await, so none of them is refused
+        return await Promise.all(csrs.map(async (csr): Promise<BatchItem> => {
+            try {
+                return { id: csr.id, response: await this.scan(csr, signal) };
+            } catch (e: any) {
+                return { id: csr.id, error: e.message };
+            }
+        }));
+    }
+
+    /**
+     * Scan a request once a slot is free.
+     */
+    private async scan(csr: ocr.CheckScanRequest, signal: AbortSignal): Promise<ocr.CheckScanResponse> {
+        await this.acquire();
+        const start = Date.now();
+        try {
+            if (signal.aborted) throw signal.reason;
+            const response = await this.cm.scanRequest(csr, signal);
+            this.metrics.scans++;
+            return response;
+        } catch (e: any) {
+            this.metrics.scanErrors++;
+            throw e;
+        } finally {
+            const ms = Date.now() - start;
+            this.metrics.scanMsTotal += ms;
+            this.metrics.scanMsMax = Math.max(this.metrics.scanMsMax, ms);
+            this.release();
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.inFlight < this.opts.maxConcurrency) {
+            this.inFlight++;
+            return Promise.resolve();
+        }
+        if (this.waiting.length >= this.opts.maxQueue) {
+            this.metrics.refused++;
+            return Promise.reject(new HttpError(503, `Too many scans in progress; ${this.inFlight} running and ${this.waiting.length} waiting`));
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    private release() {
+        const next = this.waiting.shift();
+        if (next) return next();
+        this.inFlight--;
+        if (this.inFlight === 0 && this.idle) this.idle();
+    }
+
+    /**
+     * Read and parse a JSON request body, which may be gzipped, refusing a body larger than the limit.
+     */
+    private readBody(req: http.IncomingMessage): Promise<any> {
+        const max = this.opts.maxBodySize;
+        const tooLarge = new HttpError(413, `The request body is larger than ${max} bytes`);
+        if (parseInt(req.headers["content-length"] || "0") > max) {
+            req.resume();
+            return Promise.reject(tooLarge);
+        }
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            req.on("data", (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > max) {
+                    req.removeAllListeners("data");
+                    req.resume();
+                    reject(tooLarge);
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            req.on("end", () => {
+                if (size > max) return;
+                let body = Buffer.concat(chunks);
+                if (req.headers["content-encoding"] === "gzip") {
+                    try {
+                        body = zlib.gunzipSync(body, { maxOutputLength: max });
+                    } catch (e: any) {
+                        return reject(e.code === "ERR_BUFFER_TOO_LARGE" ? tooLarge : new HttpError(400, `Invalid gzip body: ${e.message}`));
+                    }
+                }
+                try {
+                    resolve(JSON.parse(body.toString()));
+                } catch (e: any) {
+                    reject(new HttpError(400, `Invalid JSON: ${e.message}`));
+                }
+            });
+            req.on("error", reject);
+        });
+    }
+
+    private static toRequest(body: any): ocr.CheckScanRequest {
+        if (!body || typeof body !== "object") throw new HttpError(400, "Expecting a JSON object");
+        if (!body.image || typeof body.image.buffer !== "string") throw new HttpError(400, "Expecting the image buffer as a base64 string in image.buffer");
+        return body as ocr.CheckScanRequest;
+    }
+
+    private send(res: http.ServerResponse, status: number, body: any) {
+        this.metrics.responses[status] = (this.metrics.responses[status] || 0) + 1;
+        if (res.headersSent || res.destroyed) return;
+        res.statusCode = status;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(body));
+    }
+
+}
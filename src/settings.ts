@@ -0,0 +1,102 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as path from 'path';
+import { OptionSpec } from './options.js';
+
+/**
+ * The description of each group of settings.
+ */
+export const SETTING_GROUPS: {[group:string]:string} = {
+    general: "General",
+    scan: "Scan",
+    data: "Check data",
+    run: "Run",
+    training: "Training",
+};
+
+/**
+ * The settings which apply to all commands.  Each may be given as a flag, an environment variable or a key
+ * in the config file, where the key is the camel case form of the flag name (e.g. "checksDir").
+ */
+export const SETTINGS: OptionSpec[] = [
+    { name: "config", type: "string", arg: "<file>", env: "FIN_OCR_CONFIG", group: "general",
+      desc: "the config file; by default, the nearest .fin-ocr.json or .fin-ocrrc in the current or a parent directory" },
+    { name: "log-level", type: "string", arg: "<level>", env: "OCR_LOG_LEVEL", group: "general",
+      desc: "the log level: error, warn, info, debug, verbose or trace" },
+    { name: "url", type: "string", arg: "<url>", env: "URL", group: "scan",
+      desc: "the URL of a REST service to which scans are sent rather than being performed locally" },
+    { name: "request-timeout", type: "number", arg: "<seconds>", env: "REQUEST_TIMEOUT", group: "scan", def: 60,
+      desc: "the number of seconds after which a request to the REST service times out; 0 for no timeout" },
+    { name: "request-retries", type: "int", arg: "<count>", env: "REQUEST_RETRIES", group: "scan", def: 3,
+      desc: "the number of times to retry a request which fails to connect, times out or has a retryable status" },
+    { name: "request-backoff", type: "int", arg: "<ms>", env: "REQUEST_BACKOFF", group: "scan", def: 500,
+      desc: "the number of milliseconds before the first retry of a request, doubling for each retry" },
+    { name: "retry-statuses", type: "string", arg: "<list>", env: "RETRY_STATUSES", group: "scan", def: "408,429,502,503,504",
+      desc: "the comma-separated HTTP statuses of the REST service which are retried" },
+    { name: "health-retries", type: "int", arg: "<count>", env: "HEALTH_RETRIES", group: "scan", def: 5,
+      desc: "the number of times to retry the health check of the REST service at startup" },
+    { name: "auth-token", type: "string", arg: "<token>", env: "AUTH_TOKEN", group: "scan",
+      desc: "the bearer token sent in the Authorization header of each request" },
+    { name: "request-headers", type: "string", arg: "<json>|@<file>", env: "REQUEST_HEADERS", group: "scan",
+      desc: "a JSON object of headers sent with each request, or a file containing one" },
+    { name: "ca-file", type: "string", arg: "<file>", env: "CA_FILE", group: "scan",
+      desc: "the PEM file of the CA certificates with which the certificate of the REST service is verified" },
+    { name: "client-cert", type: "string", arg: "<file>", env: "CLIENT_CERT", group: "scan",
+      desc: "the PEM file of the client certificate presented to the REST service" },
+    { name: "client-key", type: "string", arg: "<file>", env: "CLIENT_KEY", group: "scan",
+      desc: "the PEM file of the key of the client certificate" },
+    { name: "gzip-requests", type: "boolean", env: "GZIP_REQUESTS", group: "scan", def: false,
+      desc: "gzip the bodies of requests to the REST service" },
+    { name: "translators", type: "string", arg: "<list>", env: "TRANSLATORS", group: "scan", def: "tesseract,opencv",
+      desc: "the comma-separated list of translators" },
+    { name: "models-dir", type: "string", arg: "<dir>", env: "MODELS_DIR", group: "scan", def: path.join(process.env.HOME || "", ".fin-ocr", "models"),
+      desc: "the directory of the registry of traineddata models" },
+    { name: "active-model", type: "string", arg: "<name>", env: "ACTIVE_MODEL", group: "scan",
+      desc: "the registered model with which local scans are performed (default: the model selected by 'ocr model use')" },
+    { name: "record", type: "string", arg: "<dir>", env: "SCAN_RECORD_DIR", group: "scan",
+      desc: "save the response of each scan, without its images, to a directory to be replayed" },
+    { name: "replay", type: "string", arg: "<dir>", env: "SCAN_REPLAY_DIR", group: "scan",
+      desc: "return the responses saved by --record rather than scanning, to re-score them without the OCR engine" },
+    { name: "cache", type: "boolean", env: "SCAN_CACHE", group: "scan", def: false,
+      desc: "return the response of an earlier scan of the same image with the same translators, traineddata, SDK version and OCR_* settings rather than scanning it" },
+    { name: "cache-dir", type: "string", arg: "<dir>", env: "SCAN_CACHE_DIR", group: "scan", def: path.join(process.env.HOME || "", ".fin-ocr", "cache"),
+      desc: "the directory of the scan cache" },
+    { name: "cache-generations", type: "int", arg: "<count>", env: "SCAN_CACHE_GENERATIONS", group: "scan", def: 4,
+      desc: "the number of generations of the scan cache, each made with other traineddata, SDK version or settings, which are kept" },
+    { name: "actual", type: "string", arg: "<value>", env: "ACTUAL", group: "scan",
+      desc: "if set, store the corrected characters of each scan in the corrections directory" },
+    { name: "corrections-dir", type: "string", arg: "<dir>", env: "CORRECTIONS_DIR", group: "scan", def: path.join("files", "corrections"),
+      desc: "the directory in which corrected characters are stored" },
+    { name: "checks-dir", type: "string", arg: "<dir>", env: "CHECKS_DIR", group: "data", def: `${process.env.HOME}/.fin-ocr/checks`,
+      desc: "the directory containing the check-N image and JSON files" },
+    { name: "check-eval-data", type: "string", arg: "<file>", env: "CHECK_EVAL_DATA", group: "data",
+      desc: "the JSON file of mismatch reasons and X9 corrections from the manual evaluation of checks" },
+    { name: "ground-truth-dir", type: "string", arg: "<dir>", env: "GROUND_TRUTH_DIR", group: "data",
+      desc: "the directory in which ground truth and debug images are written" },
+    { name: "concurrency", type: "int", arg: "<count>", env: "CONCURRENCY", group: "run", def: 25,
+      desc: "the number of checks to scan concurrently" },
+    { name: "job-timeout", type: "number", arg: "<seconds>", env: "JOB_TIMEOUT", group: "run", def: 0,
+      desc: "the number of seconds after which the scan of a check times out; 0 for no timeout" },
+    { name: "job-retries", type: "int", arg: "<count>", env: "JOB_RETRIES", group: "run", def: 0,
+      desc: "the number of times to retry a check which fails or times out" },
+    { name: "job-backoff", type: "int", arg: "<ms>", env: "JOB_BACKOFF", group: "run", def: 1000,
+      desc: "the number of milliseconds before the first retry, doubling for each retry" },
+    { name: "progress-interval", type: "number", arg: "<seconds>", env: "PROGRESS_INTERVAL", group: "run", def: 30,
+      desc: "the number of seconds between progress reports; 0 for none" },
+    { name: "worker-threads", type: "boolean", env: "WORKER_THREADS", group: "run", def: false,
+      desc: "perform local scans in worker threads so that a hung scan can be terminated" },
+    { name: "workers", type: "int", arg: "<count>", env: "WORKERS", group: "run",
+      desc: "the number of worker threads (default: the concurrency)" },
+    { name: "tesstrain-dir", type: "string", arg: "<dir>", env: "TESSTRAIN_DIR", group: "training",
+      def: path.join(process.env.HOME || "", ".fin-ocr", "train", "tesstrain"),
+      desc: "the directory of a local clone of tesstrain" },
+    { name: "tesstrain-data-dir", type: "string", arg: "<dir>", env: "TESSTRAIN_DATA_DIR", group: "training",
+      def: path.join(process.env.HOME || "", ".fin-ocr", "train", "tesstrain", "data"),
+      desc: "the tesstrain data directory in which training data is generated" },
+    { name: "training-archive-dir", type: "string", arg: "<dir>", env: "TRAINING_ARCHIVE_DIR", group: "training",
+      def: path.join(process.env.HOME || "", ".fin-ocr", "train", "by-date"),
+      desc: "the directory in which the traineddata, log and parameters of each training run are archived" },
+    { name: "tessdata-prefix", type: "string", arg: "<dir>", env: "TESSDATA_PREFIX", group: "training",
+      desc: "the directory containing the fonts directory used to render generated images" },
+];
@@ -0,0 +1,168 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConfigError } from './options.js';
+
+/**
+ * The tesstrain parameters of a training run.
+ */
+export interface TrainingParams {
+    modelName: string;
+    psm: number;
+    epochs: number;
+    targetErrorRate: number;
+}
+
+/**
+ * The record of a training run which is stored with its archived traineddata.
+ */
+export interface TrainingRecord {
+    params: TrainingParams;
+    // The range of checks from which the ground truth was generated
+    train: { start: number, count: number };
+    // The held-out range of checks with which the model was tested, if any
+    test?: { start: number, count: number };
+    startTime: string;
+    endTime?: string;
+    // The file name of the traineddata in the archive directory
+    traineddata?: string;
+    // The match rate of the test, in percent
+    accuracy?: number;
+    // The number of test checks compared with their ground truth, which excludes those which failed with an
+    // error, and the number which matched
+    testResult?: { total: number, matches: number, errors: number };
+    error?: string;
+}
+
+/**
+ * Runs the targets of a local clone of tesstrain (https://github.com/tesseract-ocr/tesstrain).
+ */
+export class Tesstrain {
+
+    private dir: string;
+    private dataDir: string;
+    private make: string;
+
+    constructor(dir: string, dataDir: string) {
+        this.dir = path.resolve(dir);
+        this.dataDir = path.resolve(dataDir);
+        this.make = process.env.MAKE || (process.platform === "darwin" ? "gmake" : "make");
+        if (!fs.existsSync(path.join(this.dir, "Makefile"))) {
+            throw new ConfigError(`tesstrain was not found in ${this.dir}; clone https://github.com/tesseract-ocr/tesstrain there or set TESSTRAIN_DIR`);
+        }
+    }
+
+    public getGroundTruthDir(modelName: string): string {
+        return path.join(this.dataDir, `${modelName}-ground-truth`);
+    }
+
+    public getTraineddataFile(modelName: string): string {
+        return path.join(this.dataDir, `${modelName}.traineddata`);
+    }
+
+    /**
+     * Train a model from the ground truth in its ground truth directory, downloading the langdata files which
+     * tesstrain requires if they are missing.  The output of make is appended to the log file and to stderr.
+     * @returns The traineddata file
+     */
+    public async train(params: TrainingParams, logFile: string): Promise<string> {
+        if (!fs.existsSync(path.join(this.dataDir, "langdata"))) {
+            await this.run(["tesseract-langdata", `DATA_DIR=${this.dataDir}`], logFile);
+        }
+        const file = this.getTraineddataFile(params.modelName);
+        fs.rmSync(file, { force: true });
+        await this.run([
+            "training",
+            `MODEL_NAME=${params.modelName}`,
+            `PSM=${params.psm}`,
+            `EPOCHS=${params.epochs}`,
+            `TARGET_ERROR_RATE=${params.targetErrorRate}`,
+            `DATA_DIR=${this.dataDir}`,
+            `GROUND_TRUTH_DIR=${this.getGroundTruthDir(params.modelName)}`,
+        ], logFile);
+        if (!fs.existsSync(file)) throw new Error(`Training failed; ${file} was not found`);
+        return file;
+    }
+
+    private run(args: string[], logFile: string): Promise<void> {
+        const log = fs.createWriteStream(logFile, { flags: "a" });
+        log.write(`$ ${this.make} ${args.join(" ")}\n`);
+        return new Promise((resolve, reject) => {
+            const child = spawn(this.make, args, { cwd: this.dir });
+            const write = (data: Buffer) => {
+                log.write(data);
+                process.stderr.write(data);
+            };
+            child.stdout.on("data", write);
+            child.stderr.on("data", write);
+            child.on("error", (e) => {
+                log.end();
+                reject(new ConfigError(`Failed to run ${this.make}: ${e.message}`));
+            });
+            child.on("close", (code) => {
+                log.end();
+                if (code === 0) resolve();
+                else reject(new Error(`${this.make} ${args[0]} failed with exit code ${code}; see ${logFile}`));
+            });
+        });
+    }
+
+}
+
+/**
+ * A directory in the training archive which holds the traineddata, log and record of one training run.
+ */
+export class TrainingArchive {
+
+    public static readonly RECORD_FILE = "training.json";
+    public static readonly LOG_FILE = "train.log";
+
+    public readonly dir: string;
+    private record: TrainingRecord;
+
+    /**
+     * Create the archive directory of a run which starts now, named by the date and time and the model name.
+     */
+    public static create(archiveDir: string, record: TrainingRecord): TrainingArchive {
+        const stamp = record.startTime.replace(/:/g, "").replace(/\.\d+Z$/, "Z");
+        const dir = path.join(archiveDir, `${stamp}-${record.params.modelName}`);
+        fs.mkdirSync(dir, { recursive: true });
+        const archive = new TrainingArchive(dir, record);
+        archive.save();
+        return archive;
+    }
+
+    private constructor(dir: string, record: TrainingRecord) {
+        this.dir = dir;
+        this.record = record;
+    }
+
+    public getLogFile(): string {
+        return path.join(this.dir, TrainingArchive.LOG_FILE);
+    }
+
+    /**
+     * Copy the traineddata into the archive.
+     * @returns The archived file
+     */
+    public addTraineddata(file: string): string {
+        const name = path.basename(file);
+        const archived = path.join(this.dir, name);
+        fs.copyFileSync(file, archived);
+        this.update({ traineddata: name });
+        return archived;
+    }
+
+    public update(fields: Partial<TrainingRecord>) {
+        Object.assign(this.record, fields);
+        this.save();
+    }
+
+    private save() {
+        fs.writeFileSync(path.join(this.dir, TrainingArchive.RECORD_FILE), JSON.stringify(this.record, null, 4));
+    }
+
+}
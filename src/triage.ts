@@ -0,0 +1,291 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckEvalData, CheckMgr, CheckResult, X9 } from './check.js';
+import { Micr } from './micr.js';
+import { ConfigError } from './options.js';
+import { Prompter } from './prompt.js';
+
+/**
+ * The check evaluation data file named by CHECK_EVAL_DATA, which records the reason for each evaluated
+ * mismatch and the corrected MICR line of each check whose X9 values are wrong.
+ */
+export class EvalDataFile {
+
+    private file: string;
+    private data: CheckEvalData;
+    private backedUp = false;
+
+    /**
+     * Open the file, which is created on the first save if it does not exist.
+     */
+    public static open(file: string): EvalDataFile {
+        let data: CheckEvalData = {};
+        if (fs.existsSync(file)) {
+            try {
+                data = JSON.parse(fs.readFileSync(file).toString());
+            } catch (e: any) {
+                throw new ConfigError(`Failed parsing ${file}: ${e.message}`);
+            }
+        }
+        return new EvalDataFile(file, data);
+    }
+
+    private constructor(file: string, data: CheckEvalData) {
+        this.file = file;
+        this.data = data;
+        this.data.mismatchesByReason = this.data.mismatchesByReason || {};
+        this.data.correctX9 = this.data.correctX9 || {};
+    }
+
+    public getFile(): string {
+        return this.file;
+    }
+
+    public getData(): CheckEvalData {
+        return this.data;
+    }
+
+    public getReasons(): string[] {
+        return Object.keys(this.reasons());
+    }
+
+    public getReason(id: string): string | undefined {
+        const reasons = this.reasons();
+        return Object.keys(reasons).find(r => (reasons[r] as (number|string)[]).some(i => i.toString() === id));
+    }
+
+    public getCorrectX9(id: string): string | undefined {
+        return this.corrections()[id];
+    }
+
+    /**
+     * Record the reason for the mismatch of a check, replacing any other reason.  A new reason is added.
+     */
+    public assignReason(id: string, reason: string) {
+        this.removeReason(id);
+        const reasons = this.reasons();
+        const ids = reasons[reason] || [];
+        // Numeric ids are stored as numbers, as in files written by hand
+        ids.push(/^\d+$/.test(id) ? parseInt(id) : id);
+        reasons[reason] = ids;
+    }
+
+    /**
+     * Record the correct MICR line of a check whose X9 values are wrong.
+     */
+    public correct(id: string, micrLine: string) {
+        this.corrections()[id] = micrLine;
+    }
+
+    /**
+     * Remove a check from its reason and corrections.
+     * @returns True if there was an entry to remove
+     */
+    public clear(id: string): boolean {
+        const removed = this.removeReason(id);
+        const corrections = this.corrections();
+        if (!(id in corrections)) return removed;
+        delete corrections[id];
+        return true;
+    }
+
+    /**
+     * Write the file atomically, by writing a temporary file and renaming it.  The original file is copied
+     * to a ".bak" file before the first write.
+     */
+    public save() {
+        if (!this.backedUp && fs.existsSync(this.file)) {
+            fs.copyFileSync(this.file, `${this.file}.bak`);
+            this.backedUp = true;
+        }
+        const dir = path.dirname(this.file);
+        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(this.data, null, 4) + "\n");
+        fs.renameSync(tmp, this.file);
+    }
+
+    private removeReason(id: string): boolean {
+        const reasons = this.reasons();
+        let removed = false;
+        for (const reason of Object.keys(reasons)) {
+            const ids = reasons[reason] as (number|string)[];
+            const remaining = ids.filter(i => i.toString() !== id);
+            if (remaining.length === ids.length) continue;
+            removed = true;
+            if (remaining.length > 0) reasons[reason] = remaining;
+            else delete reasons[reason];
+        }
+        return removed;
+    }
+
+    private reasons(): {[reason:string]:(number|string)[]} {
+        return this.data.mismatchesByReason as {[reason:string]:(number|string)[]};
+    }
+
+    private corrections(): {[id:string]:string} {
+        return this.data.correctX9 as {[id:string]:string};
+    }
+
+}
+
+/**
+ * A check to triage: a mismatch which has not been evaluated, or a match which was evaluated as a mismatch
+ * and so may be stale.
+ */
+export interface TriageItem {
+    result: CheckResult;
+    kind: "evaluate" | "reevaluate";
+}
+
+/**
+ * The counts of the actions taken by a triage session.
+ */
+export interface TriageSummary {
+    reasons: number;
+    corrections: number;
+    cleared: number;
+    skipped: number;
+}
+
+/**
+ * An interactive walk through the checks to evaluate and reevaluate, which updates the check evaluation data
+ * file after each decision.
+ */
+export class Triage {
+
+    private evalData: EvalDataFile;
+    private checksDir: string;
+    private debugImageDir?: string;
+    private prompter = new Prompter();
+
+    /**
+     * Select the checks to triage from the results of a run, according to the current evaluation data rather
+     * than that of the run, so that checks triaged since the run are not repeated.
+     */
+    public static select(results: CheckResult[], evalData: EvalDataFile): TriageItem[] {
+        const items: TriageItem[] = [];
+        for (const result of results) {
+            const id = String(result.id);
+            if (evalData.getCorrectX9(id) !== undefined) continue;
+            const evaluated = evalData.getReason(id) !== undefined;
+            if (!result.match && !evaluated) items.push({ result, kind: "evaluate" });
+            else if (result.match && evaluated) items.push({ result, kind: "reevaluate" });
+        }
+        return items;
+    }
+
+    constructor(evalData: EvalDataFile, opts: { checksDir: string, debugImageDir?: string }) {
+        this.evalData = evalData;
+        this.checksDir = opts.checksDir;
+        this.debugImageDir = opts.debugImageDir;
+    }
+
+    public async run(items: TriageItem[]): Promise<TriageSummary> {
+        const summary: TriageSummary = { reasons: 0, corrections: 0, cleared: 0, skipped: 0 };
+        try {
+            for (let i = 0; i < items.length; i++) {
+                const item = items[i] as TriageItem;
+                this.show(item, i + 1, items.length);
+                const action = await this.decide(item);
+                if (action === "quit") {
+                    summary.skipped += items.length - i;
+                    break;
+                }
+                summary[action]++;
+                if (action !== "skipped") this.evalData.save();
+            }
+        } finally {
+            this.prompter.close();
+        }
+        return summary;
+    }
+
+    private show(item: TriageItem, n: number, count: number) {
+        const r = item.result;
+        const id = String(r.id);
+        const lines: string[] = [];
+        lines.push("");
+        lines.push(`[${n}/${count}] Check ${id}: ${item.kind === "evaluate" ? "mismatch to evaluate" : `match to reevaluate; listed under '${this.evalData.getReason(id)}'`}`);
+        const image = CheckMgr.findCheckFile(this.checksDir, id);
+        lines.push(`  image:        ${image || "not found"}`);
+        if (this.debugImageDir) {
+            const page = path.join(this.debugImageDir, `check-${id}.html`);
+            lines.push(`  debug images: ${fs.existsSync(page) ? page : `none; run 'ocr check debug ${id}'`}`);
+        }
+        const x9 = this.readX9(id);
+        if (x9) lines.push(`  X9 MICR:      ${Micr.fromX9(x9)}`);
+        const e = r.expected;
+        lines.push(`  expected:     routing=${e.routingNumber || ""} account=${e.accountNumber || ""} check=${e.checkNumber || ""}`);
+        for (const name in r.translators) {
+            const tr = r.translators[name];
+            if (!tr) continue;
+            const mismatched = tr.mismatchedFields.length > 0 ? ` mismatched=${tr.mismatchedFields.join(",")}` : "";
+            lines.push(`  ${name}:`.padEnd(16) + `routing=${tr.routingNumber || ""} account=${tr.accountNumber || ""} check=${tr.checkNumber || ""}${mismatched}`);
+            lines.push(`${"".padEnd(16)}micrLine=${tr.micrLine || ""}`);
+        }
+        console.log(lines.join("\n"));
+    }
+
+    /**
+     * Ask what to do with a check until a valid answer is given, and apply it to the evaluation data.
+     */
+    private async decide(item: TriageItem): Promise<keyof TriageSummary | "quit"> {
+        const id = String(item.result.id);
+        const reasons = this.evalData.getReasons();
+        const menu = reasons.map((r, i) => `${i + 1}) ${r}`).join("  ");
+        if (menu) console.log(`Reasons: ${menu}`);
+        for (;;) {
+            const answer = await this.prompter.ask("[number] reason, [r] new reason, [c] correct X9, [x] clear, [s] skip, [q] quit: ");
+            if (answer === undefined || answer === "q") return "quit";
+            if (answer === "" || answer === "s") return "skipped";
+            if (/^\d+$/.test(answer)) {
+                const reason = reasons[parseInt(answer) - 1];
+                if (reason === undefined) {
+                    console.log(`There is no reason ${answer}`);
+                    continue;
+                }
+                this.evalData.assignReason(id, reason);
+                return "reasons";
+            }
+            if (answer === "r") {
+                const reason = await this.prompter.ask("New reason: ");
+                if (!reason) continue;
+                this.evalData.assignReason(id, reason);
+                return "reasons";
+            }
+            if (answer === "c") {
+                const x9 = this.readX9(id);
+                const micrLine = await this.prompter.ask(`Correct MICR line using T, U, A and D for the symbols${x9 ? ` (X9 is ${Micr.fromX9(x9)})` : ""}: `);
+                if (!micrLine) continue;
+                if (!/^[0-9TUAD ]+$/.test(micrLine) || micrLine.indexOf("T") < 0) {
+                    console.log(`Invalid MICR line '${micrLine}'; expecting digits, spaces and the symbols T, U, A and D, including the transit symbols around the routing number`);
+                    continue;
+                }
+                this.evalData.clear(id);
+                this.evalData.correct(id, micrLine);
+                return "corrections";
+            }
+            if (answer === "x") {
+                if (this.evalData.clear(id)) return "cleared";
+                console.log(`Check ${id} has no entry to clear`);
+                continue;
+            }
+            console.log(`Invalid answer '${answer}'`);
+        }
+    }
+
+    private readX9(id: string): X9 | undefined {
+        const file = path.join(this.checksDir, `check-${id}.json`);
+        if (!fs.existsSync(file)) return undefined;
+        try {
+            return JSON.parse(fs.readFileSync(file).toString());
+        } catch (e: any) {
+            return undefined;
+        }
+    }
+
+}
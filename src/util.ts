@@ -2,6 +2,11 @@
  * Copyright (c) 2024 Capital One
 */
 import * as ocr from '@discoverfinancial/fin-ocr-sdk';
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import * as PImage from 'pureimage';
+import { PassThrough } from 'stream';
 
 export class Util {
 
@@ -33,10 +38,111 @@ export class Util {
         return buf as Buffer;
     }
 
+    /**
+     * Prepare a scan response to be serialized as JSON or sent to another thread by base64 encoding the image buffers.
+     */
+    public static toSerializable(resp: ocr.CheckScanResponse): ocr.CheckScanResponse {
+        if (resp.images) {
+            resp.images = resp.images.map((image: ocr.NamedImageInfo) => ({ ...image, buffer: Util.base64Encode(Util.imageInfoToBuffer(image)) }));
+        }
+        return JSON.parse(JSON.stringify(resp));
+    }
+
+    /**
+     * Encode an image in memory rather than through a temporary file.
+     */
+    public static async encodeImage(img: PImage.Bitmap, format: "png" | "jpg", quality = 90): Promise<Buffer> {
+        const chunks: Buffer[] = [];
+        const stream = new PassThrough();
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        if (format === "jpg") await PImage.encodeJPEGToStream(img, stream, quality);
+        else await PImage.encodePNGToStream(img, stream);
+        return Buffer.concat(chunks);
+    }
+
     public static percent(count: number, total: number): string {
         return `${((count * 100) / total).toFixed(2)}%`;
     }
 
+    /**
+     * Return the file extension of an image based upon its magic bytes, or undefined if not recognized.
+     */
+    public static detectImageExt(buf: Buffer): string | undefined {
+        const startsWith = (...bytes: number[]) => bytes.every((b, i) => buf[i] === b);
+        if (startsWith(0x49, 0x49, 0x2A, 0x00) || startsWith(0x4D, 0x4D, 0x00, 0x2A)) return "tif";
+        if (startsWith(0xFF, 0xD8, 0xFF)) return "jpg";
+        if (startsWith(0x89, 0x50, 0x4E, 0x47)) return "png";
+        if (startsWith(0x47, 0x49, 0x46, 0x38)) return "gif";
+        if (startsWith(0x42, 0x4D)) return "bmp";
+        return undefined;
+    }
+
+    /**
+     * Compare two check ids, numerically if both are numbers and lexically otherwise.
+     */
+    public static compareIds(a: string, b: string): number {
+        const na = Number(a);
+        const nb = Number(b);
+        if (a !== "" && b !== "" && !isNaN(na) && !isNaN(nb)) return na - nb;
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    /**
+     * Return a pseudo-random number generator returning values in [0,1) which is reproducible for a given seed.
+     */
+    public static seededRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return function() {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+    /**
+     * Return the seed of a named stream of random numbers derived from a seed, so that the streams which use
+     * the same seed, such as the generated fields and the augmentations of a check, are independent.
+     */
+    public static deriveSeed(seed: number, stream: string): number {
+        // FNV-1a of the seed and the name of the stream
+        let hash = 0x811C9DC5;
+        for (const c of `${seed >>> 0}:${stream}`) hash = Math.imul(hash ^ (c.charCodeAt(0) & 0xFF), 0x01000193) >>> 0;
+        return hash;
+    }
+
+    /**
+     * Split a line of CSV into its fields, handling double-quoted fields.
+     */
+    public static parseCsvLine(line: string): string[] {
+        const fields: string[] = [];
+        let field = "";
+        let quoted = false;
+        for (let i = 0; i < line.length; i++) {
+            const c = line[i];
+            if (quoted) {
+                if (c === '"' && line[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (c === '"') {
+                    quoted = false;
+                } else {
+                    field += c;
+                }
+            } else if (c === '"') {
+                quoted = true;
+            } else if (c === ',') {
+                fields.push(field);
+                field = "";
+            } else {
+                field += c;
+            }
+        }
+        fields.push(field);
+        return fields;
+    }
+
     public static base64Encode(buf: Buffer): string {
         return buf.toString("base64");
     }
@@ -45,6 +151,70 @@ export class Util {
         return Buffer.from(str, "base64");
     }
 
+    /**
+     * Return the version of an installed package, or "unknown" if it can not be determined.
+     */
+    public static getPackageVersion(name: string): string {
+        try {
+            const require = createRequire(import.meta.url);
+            const pkg = JSON.parse(fs.readFileSync(require.resolve(`${name}/package.json`)).toString());
+            return pkg.version || "unknown";
+        } catch (e: any) {
+            return "unknown";
+        }
+    }
+
+    /**
+     * Return the version of this CLI, or "unknown" if it can not be determined.  The package.json of the CLI
+     * is next to the directory of this module, whether it is run from src or build.
+     */
+    public static getCliVersion(): string {
+        try {
+            const pkg = JSON.parse(fs.readFileSync(new URL("../package.json", import.meta.url)).toString());
+            return pkg.version || "unknown";
+        } catch (e: any) {
+            return "unknown";
+        }
+    }
+
+    /**
+     * Link the traineddata files of a tessdata directory other than that of a model into the directory of the
+     * model, so that the SDK also finds the models of its other translators, such as the "eng" model of the
+     * full-page translator, when TESSDATA_PREFIX is the directory of the model.  A file is copied if it can
+     * not be linked.
+     * @returns The names of the files which were linked
+     */
+    public static linkTraineddata(fromDir: string, toDir: string, font: string): string[] {
+        const linked: string[] = [];
+        if (!fs.existsSync(fromDir)) return linked;
+        for (const name of fs.readdirSync(fromDir).sort()) {
+            if (!name.endsWith(".traineddata") || name === `${font}.traineddata`) continue;
+            const target = path.join(toDir, name);
+            if (fs.existsSync(target)) continue;
+            // Remove a dangling link
+            fs.rmSync(target, { force: true });
+            const source = fs.realpathSync(path.join(fromDir, name));
+            try {
+                fs.symlinkSync(source, target);
+            } catch (e: any) {
+                fs.copyFileSync(source, target);
+            }
+            linked.push(name);
+        }
+        return linked;
+    }
+
+    /**
+     * Return the environment variables with the given prefix.
+     */
+    public static getEnvByPrefix(prefix: string): {[name:string]:string} {
+        const rtn: {[name:string]:string} = {};
+        for (const name of Object.keys(process.env).sort()) {
+            if (name.startsWith(prefix)) rtn[name] = process.env[name] as string;
+        }
+        return rtn;
+    }
+
     public static fatal(err: string) {
         console.log(`FATAL ERROR: ${err}`);
         process.exit(1);
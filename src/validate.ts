@@ -0,0 +1,346 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as PImage from 'pureimage';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { CheckMgr, CheckResult, X9 } from './check.js';
+import { CheckEntry } from './dataset.js';
+import { CheckGenerator } from './generator.js';
+import { Micr } from './micr.js';
+import { Util } from './util.js';
+
+export type IssueSeverity = "error" | "warning";
+
+/**
+ * A problem with the image or ground truth of a check.  A check with an error fails or is compared with
+ * wrong ground truth; a warning is a sign that the data may be wrong.
+ */
+export interface ValidationIssue {
+    id: string;
+    severity: IssueSeverity;
+    // Such as "missing-json" or "routing-checksum"
+    code: string;
+    message: string;
+}
+
+/**
+ * A suggested correctX9 entry for a check whose ground truth is probably wrong.
+ */
+export interface ValidationSuggestion {
+    id: string;
+    // The MICR line of the ground truth in the T/U/A/D notation
+    current: string;
+    micrLine: string;
+    reason: string;
+}
+
+export interface ValidationSummary {
+    checks: number;
+    valid: number;
+    withErrors: number;
+    withWarnings: number;
+    // The number of checks whose image is the same as that of an earlier check
+    duplicates: number;
+    suggestions: number;
+}
+
+export interface ValidationReport {
+    version: number;
+    summary: ValidationSummary;
+    issues: ValidationIssue[];
+    // The ids of the checks with the same image, in groups
+    duplicates: string[][];
+    suggestions: ValidationSuggestion[];
+}
+
+/**
+ * The outcome of validating the files of one check.
+ */
+export interface EntryValidation {
+    id: string;
+    issues: ValidationIssue[];
+    // Set if the image decodes and the uncorrected ground truth has valid fields, so that a scan could suggest a correction
+    scannable: boolean;
+}
+
+type IssueReporter = (severity: IssueSeverity, code: string, message: string) => void;
+
+const X9_FIELD_RULES: {[name:string]: { pattern: RegExp, desc: string, optional?: boolean }} = {
+    payorBankRoutingNumber: { pattern: /^\d{8}$/, desc: "8 digits" },
+    payorBankCheckDigit: { pattern: /^\d$/, desc: "a digit" },
+    onUs: { pattern: /^[\d\/\- ]*$/, desc: "digits, '/', '-' and spaces" },
+    auxiliaryOnUs: { pattern: /^[\d\- ]*$/, desc: "digits, '-' and spaces" },
+    amount: { pattern: /^\d+$/, desc: "digits", optional: true },
+};
+
+/**
+ * Validates the image and ground truth files of the checks of a dataset without scanning them, and suggests
+ * corrections of the ground truth from the results of scanning them.
+ */
+export class DatasetValidator {
+
+    public static readonly VERSION = 1;
+
+    private checksDir: string;
+    private correctX9: {[id:string]:string};
+    private issues: ValidationIssue[] = [];
+    private suggestions: ValidationSuggestion[] = [];
+    private checked = new Set<string>();
+    // The ids of the checks of each image hash, in the order validated
+    private byHash = new Map<string, string[]>();
+
+    constructor(opts: { checksDir: string, correctX9?: {[id:string]:string} }) {
+        this.checksDir = opts.checksDir;
+        this.correctX9 = opts.correctX9 || {};
+    }
+
+    public async validate(entry: CheckEntry): Promise<EntryValidation> {
+        const id = entry.id;
+        this.checked.add(id);
+        const issues: ValidationIssue[] = [];
+        const issue = (severity: IssueSeverity, code: string, message: string) => issues.push({ id, severity, code, message });
+        const imageFile = entry.image || CheckMgr.findCheckFile(this.checksDir, id);
+        let decodes = false;
+        if (!imageFile) {
+            issue("error", "missing-image", `No image of check ${id} in ${this.checksDir}`);
+        } else if (!fs.existsSync(imageFile)) {
+            issue("error", "missing-image", `The image file ${imageFile} does not exist`);
+        } else {
+            decodes = await this.validateImage(id, imageFile, issue);
+        }
+        const x9 = this.readGroundTruth(entry, imageFile, issue);
+        const corrected = this.correctX9[id];
+        let wellFormed = false;
+        if (corrected !== undefined) {
+            // The corrected line replaces the X9 values when comparing, so only it matters
+            const m = corrected.match(/T(\d{9})T/);
+            if (!m) issue("error", "invalid-correction", `The correctX9 line '${corrected}' has no routing number between transit symbols`);
+            else if (!CheckGenerator.isValidRoutingNumber(m[1] as string)) issue("error", "routing-checksum", `The routing number ${m[1]} of the correctX9 line fails the ABA checksum`);
+        } else if (x9) {
+            wellFormed = this.validateX9(x9, issue);
+        }
+        this.issues.push(...issues);
+        return { id, issues, scannable: decodes && wellFormed };
+    }
+
+    /**
+     * Suggest a correctX9 entry for a check which mismatched although every translator read the same fields,
+     * with a routing number which passes the ABA checksum.  The translators are unlikely to agree on the same
+     * misreading, so the ground truth is probably wrong.
+     * @returns The suggestion, if any
+     */
+    public suggest(result: CheckResult): ValidationSuggestion | undefined {
+        if (result.match || result.id in this.correctX9) return undefined;
+        const trs = Object.values(result.translators);
+        const first = trs[0];
+        if (trs.length < 2 || !first || !first.micrLine || !first.routingNumber) return undefined;
+        const agree = trs.every(tr => tr.routingNumber === first.routingNumber && tr.accountNumber === first.accountNumber && tr.checkNumber === first.checkNumber);
+        if (!agree || !CheckGenerator.isValidRoutingNumber(first.routingNumber)) return undefined;
+        const mismatched = first.mismatchedFields.join(", ");
+        const suggestion: ValidationSuggestion = {
+            id: result.id,
+            current: result.expectedMicrLine || "",
+            micrLine: first.micrLine,
+            reason: `${trs.length} translators agree on ${mismatched} with a valid routing checksum`,
+        };
+        this.suggestions.push(suggestion);
+        return suggestion;
+    }
+
+    /**
+     * Record an issue found other than by validating the files, such as a failed scan.
+     */
+    public addIssue(issue: ValidationIssue) {
+        this.issues.push(issue);
+    }
+
+    public getReport(): ValidationReport {
+        const issues = [...this.issues].sort((a, b) => Util.compareIds(a.id, b.id));
+        const withErrors = new Set(issues.filter(i => i.severity === "error").map(i => i.id));
+        const withWarnings = new Set(issues.filter(i => i.severity === "warning").map(i => i.id));
+        const duplicates = [...this.byHash.values()].filter(ids => ids.length > 1);
+        const suggestions = [...this.suggestions].sort((a, b) => Util.compareIds(a.id, b.id));
+        return {
+            version: DatasetValidator.VERSION,
+            summary: {
+                checks: this.checked.size,
+                valid: [...this.checked].filter(id => !withErrors.has(id)).length,
+                withErrors: withErrors.size,
+                withWarnings: withWarnings.size,
+                duplicates: duplicates.reduce((n, ids) => n + ids.length - 1, 0),
+                suggestions: suggestions.length,
+            },
+            issues,
+            duplicates,
+            suggestions,
+        };
+    }
+
+    /**
+     * Check that an image is in a supported format which matches its extension, that it decodes, and that it
+     * is not the same as the image of another check.
+     * @returns True if the image decodes
+     */
+    private async validateImage(id: string, file: string, issue: IssueReporter): Promise<boolean> {
+        const buf = fs.readFileSync(file);
+        const hash = crypto.createHash("sha256").update(buf).digest("hex");
+        const ids = this.byHash.get(hash) || [];
+        if (ids.length > 0) issue("warning", "duplicate-image", `The image ${file} is the same as the image of check ${ids[0]}`);
+        ids.push(id);
+        this.byHash.set(hash, ids);
+        const ext = Util.detectImageExt(buf);
+        if (!ext) {
+            issue("error", "unsupported-format", `The image ${file} is not in a supported format: tif, jpg, png, gif or bmp`);
+            return false;
+        }
+        const format = CheckMgr.getImageFormat(ext);
+        const fileExt = path.extname(file).substring(1).toLowerCase();
+        if (fileExt && DatasetValidator.normalizeExt(fileExt) !== ext) {
+            issue("warning", "extension-mismatch", `The image ${file} is in ${format} format rather than ${fileExt}`);
+        }
+        try {
+            const size = await DatasetValidator.decode(buf, ext);
+            if (size.width <= 0 || size.height <= 0) throw new Error(`its size is ${size.width}x${size.height}`);
+            return true;
+        } catch (e: any) {
+            // Only PNG and JPEG images are decoded; the structure of the others is checked
+            const what = ext === "png" || ext === "jpg" ? `does not decode as ${format}` : `is not a well-formed ${format} image`;
+            issue("error", "undecodable-image", `The image ${file} ${what}: ${e.message}`);
+            return false;
+        }
+    }
+
+    /**
+     * Read the ground truth of a check, which is given inline, given as a JSON file or else found in the JSON
+     * file with the same prefix as its image.
+     */
+    private readGroundTruth(entry: CheckEntry, imageFile: string | undefined, issue: IssueReporter): X9 | undefined {
+        if (entry.groundTruth && typeof entry.groundTruth !== "string") return entry.groundTruth;
+        let jsonFile = entry.groundTruth as string | undefined;
+        if (!jsonFile) {
+            if (!imageFile) jsonFile = path.join(this.checksDir, `check-${entry.id}.json`);
+            else jsonFile = path.join(path.dirname(imageFile), `${path.parse(imageFile).name}.json`);
+        }
+        if (!fs.existsSync(jsonFile)) {
+            issue("error", "missing-json", `The ground truth file ${jsonFile} does not exist`);
+            return undefined;
+        }
+        let x9: any;
+        try {
+            x9 = JSON.parse(fs.readFileSync(jsonFile).toString());
+        } catch (e: any) {
+            issue("error", "invalid-json", `Failed parsing ${jsonFile}: ${e.message}`);
+            return undefined;
+        }
+        if (!x9 || typeof x9 !== "object" || Array.isArray(x9)) {
+            issue("error", "invalid-json", `The ground truth file ${jsonFile} does not contain a JSON object`);
+            return undefined;
+        }
+        return x9;
+    }
+
+    /**
+     * Check that the ground truth has the fields of the X9 interface with valid values, and that its routing
+     * number passes the ABA checksum with its check digit.
+     * @returns True if the fields are valid, even if the checksum fails
+     */
+    private validateX9(x9: X9, issue: IssueReporter): boolean {
+        const record = x9 as unknown as {[name:string]: any};
+        let valid = true;
+        for (const [name, field] of Object.entries(X9_FIELD_RULES)) {
+            const value = record[name];
+            if (value === undefined && field.optional) continue;
+            if (typeof value !== "string") {
+                issue("error", "invalid-field", value === undefined ? `The ${name} field is missing` : `The ${name} field is not a string`);
+                valid = false;
+            } else if (!field.pattern.test(value)) {
+                issue("error", "invalid-field", `The ${name} field '${value}' is not ${field.desc}`);
+                valid = false;
+            }
+        }
+        for (const name of Object.keys(record)) {
+            if (!(name in X9_FIELD_RULES)) issue("warning", "unknown-field", `The ${name} field is not a field of the X9 interface`);
+        }
+        if (!valid) return false;
+        if (!/\d/.test(x9.onUs)) issue("warning", "invalid-field", "The onUs field has no digits");
+        const routing = x9.payorBankRoutingNumber + x9.payorBankCheckDigit;
+        if (!CheckGenerator.isValidRoutingNumber(routing)) {
+            const expected = CheckGenerator.abaCheckDigit(x9.payorBankRoutingNumber);
+            issue("error", "routing-checksum", `The routing number ${routing} of '${Micr.fromX9(x9)}' fails the ABA checksum; the check digit would be ${expected}`);
+        }
+        return true;
+    }
+
+    private static normalizeExt(ext: string): string {
+        if (ext === "tiff") return "tif";
+        if (ext === "jpeg") return "jpg";
+        return ext;
+    }
+
+    /**
+     * Decode an image, or for the formats which pureimage can't decode, check that its structure is complete.
+     * @returns The width and height of the image
+     */
+    private static async decode(buf: Buffer, ext: string): Promise<{ width: number, height: number }> {
+        if (ext === "png" || ext === "jpg") {
+            const stream = new PassThrough();
+            stream.end(buf);
+            const img = ext === "png" ? await PImage.decodePNGFromStream(stream) : await PImage.decodeJPEGFromStream(stream);
+            return { width: img.width, height: img.height };
+        }
+        if (ext === "gif") {
+            if (buf.length < 13 || buf[buf.length - 1] !== 0x3B) throw new Error("it is truncated");
+            return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+        }
+        if (ext === "bmp") {
+            if (buf.length < 26 || buf.readUInt32LE(2) > buf.length || buf.readUInt32LE(10) >= buf.length) throw new Error("it is truncated");
+            return { width: buf.readInt32LE(18), height: Math.abs(buf.readInt32LE(22)) };
+        }
+        return DatasetValidator.decodeTiff(buf);
+    }
+
+    /**
+     * Read the size of the first image of a TIFF file, checking that its strips or tiles lie within the file.
+     */
+    private static decodeTiff(buf: Buffer): { width: number, height: number } {
+        const le = buf[0] === 0x49;
+        const u16 = (o: number) => le ? buf.readUInt16LE(o) : buf.readUInt16BE(o);
+        const u32 = (o: number) => le ? buf.readUInt32LE(o) : buf.readUInt32BE(o);
+        const truncated = new Error("it is truncated");
+        if (buf.length < 8) throw truncated;
+        const ifd = u32(4);
+        if (ifd + 2 > buf.length) throw truncated;
+        const count = u16(ifd);
+        if (ifd + 2 + count * 12 > buf.length) throw truncated;
+        // The values of each tag, which are inline if they fit in 4 bytes
+        const tags = new Map<number, number[]>();
+        for (let i = 0; i < count; i++) {
+            const e = ifd + 2 + i * 12;
+            const type = u16(e + 2);
+            const n = u32(e + 4);
+            const size = type === 3 ? 2 : type === 4 ? 4 : 0;
+            if (size === 0) continue;
+            const at = n * size <= 4 ? e + 8 : u32(e + 8);
+            if (at + n * size > buf.length) throw truncated;
+            const values: number[] = [];
+            for (let j = 0; j < n; j++) values.push(size === 2 ? u16(at + j * 2) : u32(at + j * 4));
+            tags.set(u16(e), values);
+        }
+        const width = (tags.get(256) || [])[0];
+        const height = (tags.get(257) || [])[0];
+        if (width === undefined || height === undefined) throw new Error("it has no image width or length");
+        // A striped image has StripOffsets and StripByteCounts, and a tiled one TileOffsets and TileByteCounts
+        const tiled = !tags.has(273) && tags.has(324);
+        const offsets = tags.get(tiled ? 324 : 273) || [];
+        const counts = tags.get(tiled ? 325 : 279) || [];
+        if (offsets.length === 0 || offsets.length !== counts.length) throw new Error(`it has no valid ${tiled ? "tiles" : "strips"}`);
+        offsets.forEach((o, i) => {
+            if (o + (counts[i] as number) > buf.length) throw truncated;
+        });
+        return { width, height };
+    }
+
+}
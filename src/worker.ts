@@ -0,0 +1,61 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+/**
+ * The entry point of a worker thread which scans checks with its own instance of the SDK so that a hung
+ * native call in one worker can not stall the main thread.  See WorkerPool.
+ */
+import * as ocr from '@discoverfinancial/fin-ocr-sdk';
+import * as fs from 'fs';
+import { parentPort } from 'worker_threads';
+import { Util } from './util.js';
+
+export interface WorkerRequest {
+    seq: number;
+    req: ocr.CheckScanRequest;
+    logFile?: string;
+}
+
+export interface WorkerResponse {
+    seq: number;
+    response?: ocr.CheckScanResponse;
+    error?: string;
+}
+
+/**
+ * The message sent instead of "ready" when the SDK can not be initialized.
+ */
+export interface WorkerInitError {
+    initError: string;
+}
+
+async function main() {
+    const port = parentPort;
+    if (!port) throw new Error("worker.js must be run as a worker thread");
+    let cm: ocr.CheckMgr;
+    try {
+        cm = await ocr.CheckMgr.getInstanceByEnv(process.env);
+    } catch (e: any) {
+        port.postMessage({ initError: e.stack || e.message || JSON.stringify(e) } as WorkerInitError);
+        port.close();
+        return;
+    }
+    // The pool terminates the worker when it is no longer needed
+    port.on("message", async (msg: WorkerRequest) => {
+        const req = msg.req;
+        req.image.buffer = Buffer.from(req.image.buffer as Uint8Array);
+        const check = cm.newCheck(req.id);
+        try {
+            check.ctx.setConsole(msg.logFile ? new console.Console(fs.createWriteStream(msg.logFile)) : new console.Console(process.stderr, process.stderr));
+            const response = Util.toSerializable(await check.scan(req));
+            port.postMessage({ seq: msg.seq, response } as WorkerResponse);
+        } catch (e: any) {
+            port.postMessage({ seq: msg.seq, error: e.stack || e.message || JSON.stringify(e) } as WorkerResponse);
+        } finally {
+            check.clear();
+        }
+    });
+    port.postMessage("ready");
+}
+
+main();
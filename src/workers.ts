@@ -0,0 +1,185 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as ocr from '@discoverfinancial/fin-ocr-sdk';
+import { Worker } from 'worker_threads';
+import type { WorkerInitError, WorkerRequest, WorkerResponse } from './worker.js';
+
+interface PendingScan {
+    seq: number;
+    req: ocr.CheckScanRequest;
+    logFile?: string;
+    resolve: (resp: ocr.CheckScanResponse) => void;
+    reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+    worker: Worker;
+    ready: boolean;
+    current?: PendingScan;
+}
+
+/**
+ * A pool of worker threads, each with its own instance of the SDK, which perform local scans.
+ * If a scan is aborted, such as when it times out, the worker running it is terminated and replaced
+ * so that a hung native call can not stall the process.
+ */
+export class WorkerPool {
+
+    private size: number;
+    private ctx: ocr.Context;
+    private env: NodeJS.ProcessEnv;
+    private workers: PoolWorker[] = [];
+    private pending: PendingScan[] = [];
+    private seq = 0;
+    private stopping = false;
+    // The error of a worker which failed before it was ready, after which no worker is started
+    private failed?: Error;
+
+    constructor(size: number, ctx: ocr.Context, env: NodeJS.ProcessEnv) {
+        this.size = size;
+        this.ctx = ctx;
+        this.env = env;
+        for (let i = 0; i < size; i++) this.workers.push(this.newWorker());
+    }
+
+    public getSize(): number {
+        return this.size;
+    }
+
+    public scan(req: ocr.CheckScanRequest, opts?: { logFile?: string, signal?: AbortSignal }): Promise<ocr.CheckScanResponse> {
+        opts = opts || {};
+        const signal = opts.signal;
+        if (signal && signal.aborted) return Promise.reject(signal.reason);
+        if (this.failed) return Promise.reject(this.failed);
+        return new Promise<ocr.CheckScanResponse>((resolve, reject) => {
+            const scan: PendingScan = { seq: ++this.seq, req, logFile: opts?.logFile, resolve, reject };
+            if (signal) {
+                signal.addEventListener("abort", () => this.abort(scan, signal.reason), { once: true });
+            }
+            this.pending.push(scan);
+            this.dispatch();
+        });
+    }
+
+    public async stop() {
+        this.stopping = true;
+        for (const scan of this.pending) scan.reject(new Error("worker pool stopped"));
+        this.pending = [];
+        await Promise.all(this.workers.map(pw => pw.worker.terminate()));
+        this.workers = [];
+    }
+
+    private newWorker(): PoolWorker {
+        const worker = new Worker(WorkerPool.workerFile(), { env: this.env, execArgv: WorkerPool.workerExecArgv() });
+        const pw: PoolWorker = { worker, ready: false };
+        worker.on("message", (msg: WorkerResponse | WorkerInitError | "ready") => {
+            if (msg === "ready") {
+                pw.ready = true;
+            } else if ("initError" in msg) {
+                this.fail(pw, new Error(`worker thread failed to initialize the SDK: ${msg.initError}`));
+                return;
+            } else {
+                const scan = pw.current;
+                pw.current = undefined;
+                if (scan && scan.seq === msg.seq) {
+                    if (msg.response) scan.resolve(msg.response);
+                    else scan.reject(new Error(msg.error || "scan failed in worker"));
+                }
+            }
+            this.dispatch();
+        });
+        worker.on("error", (err: Error) => {
+            this.ctx.error(`Worker thread failed: ${err.message}`);
+            this.replace(pw, err);
+        });
+        worker.on("exit", (code: number) => {
+            if (!this.stopping && this.workers.indexOf(pw) >= 0) this.replace(pw, new Error(`worker thread exited with code ${code}`));
+        });
+        return pw;
+    }
+
+    /**
+     * Return the entry point of a worker, which is worker.ts rather than worker.js when the CLI is run from
+     * its sources by ts-node.
+     */
+    private static workerFile(): URL {
+        return new URL(import.meta.url.endsWith(".ts") ? "./worker.ts" : "./worker.js", import.meta.url);
+    }
+
+    /**
+     * Return the node options of a worker, which must load worker.ts with the ts-node loader if the CLI is
+     * run from its sources without it, or undefined to inherit those of this process.
+     */
+    private static workerExecArgv(): string[] | undefined {
+        if (!import.meta.url.endsWith(".ts") || process.execArgv.some(arg => arg.includes("ts-node"))) return undefined;
+        return [...process.execArgv, "--loader", "ts-node/esm"];
+    }
+
+    /**
+     * Send pending scans to idle workers.
+     */
+    private dispatch() {
+        for (const pw of this.workers) {
+            if (this.pending.length === 0) return;
+            if (!pw.ready || pw.current) continue;
+            const scan = this.pending.shift() as PendingScan;
+            pw.current = scan;
+            const msg: WorkerRequest = { seq: scan.seq, req: scan.req, logFile: scan.logFile };
+            pw.worker.postMessage(msg);
+        }
+    }
+
+    private abort(scan: PendingScan, reason: any) {
+        const err = reason instanceof Error ? reason : new Error(`scan ${scan.req.id} aborted`);
+        const idx = this.pending.indexOf(scan);
+        if (idx >= 0) {
+            this.pending.splice(idx, 1);
+            scan.reject(err);
+            return;
+        }
+        const pw = this.workers.find(w => w.current === scan);
+        if (pw) {
+            this.ctx.warn(`Terminating the worker thread scanning check ${scan.req.id}: ${err.message}`);
+            this.replace(pw, err);
+        }
+    }
+
+    /**
+     * Terminate a worker, failing its current scan, and start a new one in its place.  A worker which fails
+     * before it is ready would fail again if replaced, so the pool fails instead.
+     */
+    private replace(pw: PoolWorker, err: Error) {
+        const idx = this.workers.indexOf(pw);
+        if (idx < 0 || this.stopping) return;
+        if (!pw.ready) {
+            this.fail(pw, err);
+            return;
+        }
+        this.workers.splice(idx, 1);
+        const scan = pw.current;
+        pw.current = undefined;
+        pw.worker.terminate();
+        if (scan) scan.reject(err);
+        this.workers.push(this.newWorker());
+        this.dispatch();
+    }
+
+    /**
+     * Terminate a worker which failed before it was ready and reject the pending scans and any later ones,
+     * since every worker initializes the SDK the same way.
+     */
+    private fail(pw: PoolWorker, err: Error) {
+        const idx = this.workers.indexOf(pw);
+        if (idx < 0 || this.stopping) return;
+        this.workers.splice(idx, 1);
+        pw.worker.terminate();
+        if (!this.failed) {
+            this.failed = err;
+            this.ctx.error(`Worker threads are unavailable: ${err.message}`);
+        }
+        for (const scan of this.pending) scan.reject(this.failed);
+        this.pending = [];
+    }
+
+}
@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) 2024 Capital One
+*/
+import * as ocr from '@discoverfinancial/fin-ocr-sdk';
+import * as fs from 'fs';
+import * as path from 'path';
+import { X9 } from './check.js';
+import { Util } from './util.js';
+
+/**
+ * A check item found in an X9.37 file: the fields from the type 25 check detail record and
+ * the front image from the type 52 image view data record which follows it.
+ */
+export interface X9Item {
+    x9: X9;
+    itemSequenceNumber: string;
+    image?: Buffer;
+}
+
+/**
+ * Maps EBCDIC (code page 037) bytes to the printable ASCII characters which may appear in X9.37 text fields.
+ */
+const EBCDIC: {[code:number]:string} = (() => {
+    const map: {[code:number]:string} = {
+        0x40: " ", 0x4B: ".", 0x4C: "<", 0x4D: "(", 0x4E: "+", 0x50: "&", 0x5A: "!", 0x5B: "$", 0x5C: "*",
+        0x5D: ")", 0x5E: ";", 0x60: "-", 0x61: "/", 0x6B: ",", 0x6C: "%", 0x6D: "_", 0x6E: ">", 0x6F: "?",
+        0x7A: ":", 0x7B: "#", 0x7C: "@", 0x7D: "'", 0x7E: "=", 0x7F: "\"",
+    };
+    const ranges: [number, string][] = [
+        [0x81, "abcdefghi"], [0x91, "jklmnopqr"], [0xA2, "stuvwxyz"],
+        [0xC1, "ABCDEFGHI"], [0xD1, "JKLMNOPQR"], [0xE2, "STUVWXYZ"], [0xF0, "0123456789"],
+    ];
+    for (const [start, chars] of ranges) {
+        for (let i = 0; i < chars.length; i++) map[start + i] = chars[i] as string;
+    }
+    return map;
+})();
+
+/**
+ * Reads X9.37 files in which each record is preceded by a 4-byte big-endian record length,
+ * with text fields encoded in either EBCDIC or ASCII.
+ */
+export class X9Reader {
+
+    private buf: Buffer;
+    private ebcdic: boolean;
+
+    constructor(buf: Buffer) {
+        this.buf = buf;
+        if (buf.length < 6) throw new Error("File is too small to be an X9.37 file");
+        const b0 = buf[4] as number;
+        const b1 = buf[5] as number;
+        if (b0 === 0xF0 && b1 === 0xF1) this.ebcdic = true;
+        else if (b0 === 0x30 && b1 === 0x31) this.ebcdic = false;
+        else throw new Error("File does not begin with a type 01 file header record");
+    }
+
+    public static fromFile(file: string): X9Reader {
+        return new X9Reader(fs.readFileSync(file));
+    }
+
+    public isEbcdic(): boolean {
+        return this.ebcdic;
+    }
+
+    /**
+     * Return the check items found in the file, in file order.
+     */
+    public getItems(): X9Item[] {
+        const items: X9Item[] = [];
+        let item: X9Item | undefined;
+        // The view side indicator of the most recent type 50 record; "0" is the front
+        let viewSide = "0";
+        let offset = 0;
+        while (offset + 4 <= this.buf.length) {
+            const len = this.buf.readUInt32BE(offset);
+            const start = offset + 4;
+            const end = start + len;
+            if (len < 2 || end > this.buf.length) throw new Error(`Invalid record length ${len} at offset ${offset}`);
+            const rec = this.buf.subarray(start, end);
+            const type = this.text(rec, 1, 2);
+            if (type === "25") {
+                item = {
+                    x9: {
+                        auxiliaryOnUs: this.text(rec, 3, 15).trim(),
+                        payorBankRoutingNumber: this.text(rec, 19, 8).trim(),
+                        payorBankCheckDigit: this.text(rec, 27, 1).trim(),
+                        onUs: this.text(rec, 28, 20).trim(),
+                    },
+                    itemSequenceNumber: this.text(rec, 58, 15).trim(),
+                };
+                items.push(item);
+            } else if (type === "50") {
+                viewSide = this.text(rec, 32, 1);
+            } else if (type === "52") {
+                if (item && !item.image && viewSide === "0") item.image = this.getImageData(rec);
+            } else if (type === "99") {
+                break;
+            }
+            offset = end;
+        }
+        return items;
+    }
+
+    /**
+     * Get the image data from a type 52 image view data record, which follows the variable length
+     * image reference key and digital signature fields.
+     */
+    private getImageData(rec: Buffer): Buffer {
+        let pos = 102;
+        const keyLen = this.num(rec, pos, 4);
+        pos += 4 + keyLen;
+        const sigLen = this.num(rec, pos, 5);
+        pos += 5 + sigLen;
+        const dataLen = this.num(rec, pos, 7);
+        pos += 7;
+        return Buffer.from(rec.subarray(pos - 1, pos - 1 + dataLen));
+    }
+
+    /**
+     * Return a text field given its 1-based position and length as in the X9.37 specification.
+     */
+    private text(rec: Buffer, pos: number, len: number): string {
+        const field = rec.subarray(pos - 1, pos - 1 + len);
+        if (!this.ebcdic) return field.toString("latin1");
+        let str = "";
+        for (const b of field) str += EBCDIC[b] ?? "?";
+        return str;
+    }
+
+    private num(rec: Buffer, pos: number, len: number): number {
+        const str = this.text(rec, pos, len);
+        const n = parseInt(str, 10);
+        if (isNaN(n)) throw new Error(`Invalid numeric field '${str}' at position ${pos}`);
+        return n;
+    }
+
+}
+
+/**
+ * Imports the checks in X9.37 files into the checks directory as check-N.<image-ext> and check-N.json files.
+ */
+export class X9Importer {
+
+    private checksDir: string;
+    private ctx: ocr.Context;
+    private nextId: number;
+
+    constructor(checksDir: string, ctx: ocr.Context, start?: number) {
+        this.checksDir = checksDir;
+        this.ctx = ctx;
+        this.nextId = start ?? this.getNextFreeId();
+    }
+
+    /**
+     * Import the checks from an X9.37 file, returning the ids which were assigned to them.
+     */
+    public import(file: string): number[] {
+        if (!fs.existsSync(this.checksDir)) fs.mkdirSync(this.checksDir, { recursive: true });
+        const reader = X9Reader.fromFile(file);
+        this.ctx.info(`Importing ${reader.isEbcdic() ? "EBCDIC" : "ASCII"} X9 file ${file}`);
+        const ids: number[] = [];
+        for (const item of reader.getItems()) {
+            if (!item.image) {
+                this.ctx.warn(`No front image found for item ${item.itemSequenceNumber} in ${file}; skipping`);
+                continue;
+            }
+            const ext = Util.detectImageExt(item.image) || "tiff";
+            const id = this.nextId++;
+            const prefix = path.join(this.checksDir, `check-${id}`);
+            fs.writeFileSync(`${prefix}.${ext === "tif" ? "tiff" : ext}`, item.image);
+            fs.writeFileSync(`${prefix}.json`, JSON.stringify(item.x9, null, 4));
+            ids.push(id);
+        }
+        this.ctx.info(`Imported ${ids.length} checks from ${file}`);
+        return ids;
+    }
+
+    public getNextId(): number {
+        return this.nextId;
+    }
+
+    private getNextFreeId(): number {
+        let max = 0;
+        if (fs.existsSync(this.checksDir)) {
+            for (const name of fs.readdirSync(this.checksDir)) {
+                const m = name.match(/^check-(\d+)\.json$/);
+                if (m) max = Math.max(max, parseInt(m[1] as string, 10));
+            }
+        }
+        return max + 1;
+    }
+
+}